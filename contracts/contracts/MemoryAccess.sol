@@ -13,6 +13,10 @@ contract MemoryAccess {
         bool revoked;
         uint256 grantedAt;
         uint256 revokedAt;
+        uint256 expiresAt; // 0 = never expires
+        string scope; // Empty = whole stream, else e.g. "agent:<id>" or "namespace:<name>"
+        uint256 maxReads; // 0 = unlimited
+        uint256 reads;
     }
     
     // streamId => address => capability => Authorization
@@ -21,6 +25,10 @@ contract MemoryAccess {
     // streamId => policy settings
     mapping(string => mapping(string => bool)) public policies;
     
+    // Registry allowed to bootstrap stream owners, set once after deployment
+    address public registry;
+    address public immutable deployer;
+    
     event Authorized(
         string indexed streamId,
         address indexed addr,
@@ -42,6 +50,63 @@ contract MemoryAccess {
         bool value,
         uint256 timestamp
     );
+    
+    event RegistrySet(address indexed registry);
+    
+    event LimitsSet(
+        string indexed streamId,
+        address indexed addr,
+        string capability,
+        uint256 expiresAt,
+        string scope,
+        uint256 maxReads
+    );
+    
+    event ReadRecorded(
+        string indexed streamId,
+        address indexed addr,
+        string capability,
+        uint256 reads,
+        uint256 timestamp
+    );
+
+    constructor() {
+        deployer = msg.sender;
+    }
+
+    /**
+     * @dev Link the registry whose registerStream bootstraps stream owners. Can only be set once.
+     */
+    function setRegistry(address _registry) external {
+        require(msg.sender == deployer, "Only deployer can set registry");
+        require(registry == address(0), "Registry already set");
+        require(_registry != address(0), "Invalid address");
+        
+        registry = _registry;
+        
+        emit RegistrySet(_registry);
+    }
+
+    /**
+     * @dev Grant OWNER to the owner of a newly registered stream, so it can grant everything else
+     */
+    function bootstrapOwner(string memory streamId, address owner) external {
+        require(msg.sender == registry, "Only registry can bootstrap owners");
+        require(owner != address(0), "Invalid address");
+        
+        authorizations[streamId][owner]["OWNER"] = Authorization({
+            role: Role.OWNER,
+            revoked: false,
+            grantedAt: block.timestamp,
+            revokedAt: 0,
+            expiresAt: 0,
+            scope: "",
+            maxReads: 0,
+            reads: 0
+        });
+        
+        emit Authorized(streamId, owner, "OWNER", Role.OWNER, block.timestamp);
+    }
 
     /**
      * @dev Grant authorization to an address for a specific capability
@@ -52,6 +117,42 @@ contract MemoryAccess {
         string memory capability,
         Role role
     ) external {
+        _authorize(streamId, addr, capability, role, 0, "", 0);
+    }
+
+    /**
+     * @dev Grant authorization that expires, covers only one scope or allows a limited number of reads.
+     * The registry checks WRITE on the whole stream, so WRITE grants can't be scoped.
+     */
+    function authorizeWithLimits(
+        string memory streamId,
+        address addr,
+        string memory capability,
+        Role role,
+        uint256 expiresAt,
+        string memory scope,
+        uint256 maxReads
+    ) external {
+        require(expiresAt == 0 || expiresAt > block.timestamp, "Expiry in the past");
+        require(
+            bytes(scope).length == 0 || keccak256(bytes(capability)) != keccak256(bytes("WRITE")),
+            "WRITE grants can't be scoped"
+        );
+        
+        _authorize(streamId, addr, capability, role, expiresAt, scope, maxReads);
+        
+        emit LimitsSet(streamId, addr, capability, expiresAt, scope, maxReads);
+    }
+
+    function _authorize(
+        string memory streamId,
+        address addr,
+        string memory capability,
+        Role role,
+        uint256 expiresAt,
+        string memory scope,
+        uint256 maxReads
+    ) internal {
         require(addr != address(0), "Invalid address");
         require(role != Role.NONE, "Invalid role");
         
@@ -66,7 +167,11 @@ contract MemoryAccess {
             role: role,
             revoked: false,
             grantedAt: block.timestamp,
-            revokedAt: 0
+            revokedAt: 0,
+            expiresAt: expiresAt,
+            scope: scope,
+            maxReads: maxReads,
+            reads: 0
         });
         
         emit Authorized(streamId, addr, capability, role, block.timestamp);
@@ -96,16 +201,33 @@ contract MemoryAccess {
     }
 
     /**
-     * @dev Check if an address is authorized for a specific capability
+     * @dev Check if an address is authorized for a specific capability on the whole stream
      */
     function isAuthorized(
         string memory streamId,
         address addr,
         string memory capability
+    ) public view returns (bool) {
+        return isAuthorizedForScope(streamId, addr, capability, "");
+    }
+
+    /**
+     * @dev Check if an address is authorized for a specific capability within a scope
+     */
+    function isAuthorizedForScope(
+        string memory streamId,
+        address addr,
+        string memory capability,
+        string memory scope
     ) public view returns (bool) {
         Authorization memory auth = authorizations[streamId][addr][capability];
         
-        if (auth.revoked || auth.role == Role.NONE) {
+        if (!_isActive(auth)) {
+            return false;
+        }
+        
+        // Scoped grants only cover their own scope, unscoped grants cover all of them
+        if (bytes(auth.scope).length > 0 && keccak256(bytes(auth.scope)) != keccak256(bytes(scope))) {
             return false;
         }
         
@@ -117,6 +239,39 @@ contract MemoryAccess {
         return auth.role != Role.NONE;
     }
 
+    /**
+     * @dev Count a read against a grant's limit. Called by the grantee or a stream admin serving the read.
+     */
+    function recordRead(
+        string memory streamId,
+        address addr,
+        string memory capability
+    ) external {
+        require(
+            msg.sender == addr ||
+            isAuthorized(streamId, msg.sender, "ADMIN") ||
+            isAuthorized(streamId, msg.sender, "OWNER"),
+            "Not authorized to record reads"
+        );
+        
+        Authorization storage auth = authorizations[streamId][addr][capability];
+        require(_isActive(auth), "Authorization not active");
+        
+        auth.reads += 1;
+        
+        emit ReadRecorded(streamId, addr, capability, auth.reads, block.timestamp);
+    }
+
+    function _isActive(Authorization memory auth) internal view returns (bool) {
+        if (auth.revoked || auth.role == Role.NONE) {
+            return false;
+        }
+        if (auth.expiresAt != 0 && block.timestamp >= auth.expiresAt) {
+            return false;
+        }
+        return auth.maxReads == 0 || auth.reads < auth.maxReads;
+    }
+
     /**
      * @dev Set policy for a stream
      */
@@ -143,14 +298,8 @@ contract MemoryAccess {
         string memory streamId,
         address addr,
         string memory capability
-    ) external view returns (
-        Role role,
-        bool revoked,
-        uint256 grantedAt,
-        uint256 revokedAt
-    ) {
-        Authorization memory auth = authorizations[streamId][addr][capability];
-        return (auth.role, auth.revoked, auth.grantedAt, auth.revokedAt);
+    ) external view returns (Authorization memory) {
+        return authorizations[streamId][addr][capability];
     }
 
     /**
@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: Apache-2.0
 pragma solidity ^0.8.0;
 
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "./MemoryAccess.sol";
 
 /**
@@ -8,7 +10,7 @@ import "./MemoryAccess.sol";
  * @dev Core contract for registering memory streams, owners, ACL, content hashes (CID/Merkle root), 
  * pointers to index snapshots, emit events for indexers.
  */
-contract MemoryRegistry {
+contract MemoryRegistry is EIP712 {
     struct MemoryStream {
         address owner;
         string policy;
@@ -23,21 +25,63 @@ contract MemoryRegistry {
     mapping(string => MemoryStream) public streams;
     mapping(string => string[]) public streamHistory; // streamId => CID[]
     
+    // Append signed off-chain by `author` and submitted by a relayer
+    struct AppendIntent {
+        string streamId;
+        string cid;
+        bytes32 merkleRoot;
+        string metadata;
+        address author;
+        uint256 deadline;
+    }
+    
+    bytes32 public constant APPEND_TYPEHASH = keccak256(
+        "Append(string streamId,string cid,bytes32 merkleRoot,string metadata,address author,uint256 nonce,uint256 deadline)"
+    );
+    
+    // Registration signed off-chain by `owner` and submitted by a relayer
+    struct RegisterIntent {
+        string streamId;
+        address owner;
+        string policy;
+        uint256 deadline;
+    }
+    
+    bytes32 public constant REGISTER_TYPEHASH = keccak256(
+        "Register(string streamId,address owner,string policy,uint256 nonce,uint256 deadline)"
+    );
+    
+    mapping(address => uint256) public nonces; // signer => next intent nonce, shared by both intents
+    
     MemoryAccess public immutable accessControl;
+
+    // Keeps a full batch well inside a Sei block's gas limit
+    uint256 public constant MAX_BATCH_SIZE = 50;
     
+    // `stream` repeats the indexed streamId, as MemoryAppended does
     event StreamRegistered(
         string indexed streamId,
         address indexed owner,
         string policy,
-        uint256 timestamp
+        uint256 timestamp,
+        string stream
     );
     
+    // Logs only carry the hash of an indexed string, so `stream` repeats the ID
     event MemoryAppended(
         string indexed streamId,
         string cid,
         bytes32 merkleRoot,
         string metadata,
-        uint256 timestamp
+        uint256 timestamp,
+        string stream
+    );
+    
+    event DelegatedAppend(
+        string indexed streamId,
+        address indexed author,
+        address indexed relayer,
+        uint256 nonce
     );
     
     event IndexRootUpdated(
@@ -69,18 +113,56 @@ contract MemoryRegistry {
         _;
     }
 
-    constructor(address _accessControl) {
+    constructor(address _accessControl) EIP712("MemoryRegistry", "1") {
         accessControl = MemoryAccess(_accessControl);
     }
 
     /**
-     * @dev Register a new memory stream
+     * @dev Register a new memory stream. Registering grants OWNER, so only the
+     * owner itself can register.
      */
     function registerStream(
         string memory streamId,
         address owner,
         string memory policy
     ) external {
+        require(owner == msg.sender, "Only the owner can register a stream");
+        _registerStream(streamId, owner, policy);
+    }
+
+    /**
+     * @dev Register a stream for `intent.owner`, who signed it as EIP-712 typed
+     * data. The relayer only pays gas.
+     */
+    function registerStreamWithSig(
+        RegisterIntent calldata intent,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= intent.deadline, "Signature expired");
+        
+        uint256 nonce = nonces[intent.owner]++;
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    REGISTER_TYPEHASH,
+                    keccak256(bytes(intent.streamId)),
+                    intent.owner,
+                    keccak256(bytes(intent.policy)),
+                    nonce,
+                    intent.deadline
+                )
+            )
+        );
+        require(ECDSA.recover(digest, signature) == intent.owner, "Invalid signature");
+        
+        _registerStream(intent.streamId, intent.owner, intent.policy);
+    }
+
+    function _registerStream(
+        string memory streamId,
+        address owner,
+        string memory policy
+    ) internal {
         require(!streams[streamId].exists, "Stream already exists");
         require(owner != address(0), "Invalid owner address");
         
@@ -95,7 +177,10 @@ contract MemoryRegistry {
             exists: true
         });
         
-        emit StreamRegistered(streamId, owner, policy, block.timestamp);
+        // Same transaction, so the owner can grant access as soon as the stream exists
+        accessControl.bootstrapOwner(streamId, owner);
+        
+        emit StreamRegistered(streamId, owner, policy, block.timestamp, streamId);
     }
 
     /**
@@ -107,10 +192,57 @@ contract MemoryRegistry {
         bytes32 merkleRoot,
         string memory metadata
     ) external {
+        _append(streamId, cid, merkleRoot, metadata, msg.sender);
+    }
+
+    /**
+     * @dev Append on behalf of `intent.author`, who signed it as EIP-712 typed data.
+     * The author needs WRITE (or ownership) on the stream, the relayer only pays gas.
+     */
+    function appendWithSig(
+        AppendIntent calldata intent,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= intent.deadline, "Signature expired");
+        
+        uint256 nonce = nonces[intent.author]++;
+        bytes32 digest = _hashTypedDataV4(_hashAppendIntent(intent, nonce));
+        require(ECDSA.recover(digest, signature) == intent.author, "Invalid signature");
+        
+        _append(intent.streamId, intent.cid, intent.merkleRoot, intent.metadata, intent.author);
+        
+        emit DelegatedAppend(intent.streamId, intent.author, msg.sender, nonce);
+    }
+
+    function _hashAppendIntent(
+        AppendIntent calldata intent,
+        uint256 nonce
+    ) internal pure returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                APPEND_TYPEHASH,
+                keccak256(bytes(intent.streamId)),
+                keccak256(bytes(intent.cid)),
+                intent.merkleRoot,
+                keccak256(bytes(intent.metadata)),
+                intent.author,
+                nonce,
+                intent.deadline
+            )
+        );
+    }
+
+    function _append(
+        string memory streamId,
+        string memory cid,
+        bytes32 merkleRoot,
+        string memory metadata,
+        address writer
+    ) internal {
         require(streams[streamId].exists, "Stream does not exist");
         require(
-            accessControl.isAuthorized(streamId, msg.sender, "WRITE") ||
-            streams[streamId].owner == msg.sender,
+            accessControl.isAuthorized(streamId, writer, "WRITE") ||
+            streams[streamId].owner == writer,
             "Not authorized to write"
         );
         
@@ -120,7 +252,54 @@ contract MemoryRegistry {
         
         streamHistory[streamId].push(cid);
         
-        emit MemoryAppended(streamId, cid, merkleRoot, metadata, block.timestamp);
+        emit MemoryAppended(streamId, cid, merkleRoot, metadata, block.timestamp, streamId);
+    }
+
+    /**
+     * @dev Append several memories to a stream in one transaction. Access is
+     * checked once and the head is only written for the last item.
+     */
+    function batchAppend(
+        string calldata streamId,
+        string[] calldata cids,
+        bytes32[] calldata merkleRoots,
+        string[] calldata metadata
+    ) external {
+        uint256 count = cids.length;
+        require(count > 0, "Empty batch");
+        require(count <= MAX_BATCH_SIZE, "Batch too large");
+        require(
+            merkleRoots.length == count && metadata.length == count,
+            "Batch length mismatch"
+        );
+
+        MemoryStream storage stream = streams[streamId];
+        require(stream.exists, "Stream does not exist");
+        require(
+            accessControl.isAuthorized(streamId, msg.sender, "WRITE") ||
+            stream.owner == msg.sender,
+            "Not authorized to write"
+        );
+
+        string[] storage history = streamHistory[streamId];
+        for (uint256 i = 0; i < count; i++) {
+            history.push(cids[i]);
+            _emitAppended(streamId, cids[i], merkleRoots[i], metadata[i]);
+        }
+
+        stream.latestCID = cids[count - 1];
+        stream.latestMerkleRoot = merkleRoots[count - 1];
+        stream.lastUpdated = block.timestamp;
+    }
+
+    // Its own frame, as the batch loop has too many calldata slices on the stack
+    function _emitAppended(
+        string calldata streamId,
+        string calldata cid,
+        bytes32 merkleRoot,
+        string calldata metadata
+    ) private {
+        emit MemoryAppended(streamId, cid, merkleRoot, metadata, block.timestamp, streamId);
     }
 
     /**
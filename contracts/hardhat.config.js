@@ -1,5 +1,5 @@
 import "@nomiclabs/hardhat-ethers";
-import "@nomiclabs/hardhat-verify";
+import "@nomicfoundation/hardhat-verify";
 import "hardhat-gas-reporter";
 import dotenv from "dotenv";
 
@@ -28,10 +28,13 @@ const formattedPrivateKey = PRIVATE_KEY?.startsWith("0x")
   ? PRIVATE_KEY
   : `0x${PRIVATE_KEY}`;
 
+// Without a key the live networks are unusable, but tests on the local network still run
+const accounts = PRIVATE_KEY ? [formattedPrivateKey] : [];
+
 // The Hardhat configuration object is exported using ES module syntax.
 export default {
   solidity: {
-    version: "0.8.19",
+    version: "0.8.20",
     settings: {
       optimizer: {
         enabled: true,
@@ -43,14 +46,14 @@ export default {
     "sei-testnet": {
       url: "https://evm-rpc-testnet.sei-apis.com",
       chainId: 1328, // Updated to match actual Sei testnet chain ID
-      accounts: [formattedPrivateKey],
+      accounts,
       gas: 8000000,
       gasPrice: 10000000000, // 10 gwei
     },
     "sei-mainnet": {
       url: "https://evm-rpc.sei-apis.com",
       chainId: 1329,
-      accounts: [formattedPrivateKey],
+      accounts,
       gas: 8000000,
       gasPrice: 10000000000, // 10 gwei
     },
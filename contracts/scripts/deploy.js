@@ -22,8 +22,14 @@ async function main() {
   const MemoryRegistry = await ethers.getContractFactory("MemoryRegistry");
   const memoryRegistry = await MemoryRegistry.deploy(memoryAccess.address);
   await memoryRegistry.deployed();
+  const registryReceipt = await memoryRegistry.deployTransaction.wait();
   console.log("MemoryRegistry deployed to:", memoryRegistry.address);
 
+  // Let the registry grant OWNER to the owners of streams it registers
+  const setRegistryTx = await memoryAccess.setRegistry(memoryRegistry.address);
+  await setRegistryTx.wait();
+  console.log("MemoryAccess linked to MemoryRegistry");
+
   // Deploy PaymentVault (using proper checksummed USDC address for testnet)
   const USDC_ADDRESS =
     process.env.USDC_ADDRESS || "0x4fCF1784B31630811181f670Aea7A7bEF803eaED"; // Proper checksum
@@ -54,6 +60,7 @@ async function main() {
     },
     usdcAddress: USDC_ADDRESS,
     deployer: deployer.address,
+    startBlock: registryReceipt.blockNumber, // Where event replay can start
     deployedAt: new Date().toISOString(),
   };
 
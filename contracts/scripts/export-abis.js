@@ -0,0 +1,36 @@
+import pkg from "hardhat";
+const { artifacts, ethers } = pkg;
+import fs from "fs";
+
+// Contracts whose ABIs the TypeScript packages bind to
+const CONTRACTS = ["MemoryRegistry", "MemoryAccess", "PaymentVault"];
+const OUTPUT = "../src/oss/src/contracts/abis.ts";
+
+function constantName(contract) {
+  return `${contract.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}_ABI`;
+}
+
+async function main() {
+  let source =
+    "// Generated by contracts/scripts/export-abis.js, do not edit by hand\n";
+
+  for (const contract of CONTRACTS) {
+    const { abi } = await artifacts.readArtifact(contract);
+    const fragments = new ethers.utils.Interface(abi).format(
+      ethers.utils.FormatTypes.full,
+    );
+    source += `\nexport const ${constantName(contract)} = ${JSON.stringify(fragments, null, 2)};\n`;
+  }
+
+  fs.writeFileSync(OUTPUT, source);
+  console.log(
+    `ABIs written to ${OUTPUT}, run prettier on it before committing`,
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
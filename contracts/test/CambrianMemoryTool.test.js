@@ -0,0 +1,61 @@
+import pkg from "hardhat";
+const { ethers } = pkg;
+import { expect } from "chai";
+import { tsImport } from "tsx/esm/api";
+import { deployMemoryContracts } from "./helpers.js";
+
+describe("CambrianMemoryTool", function () {
+  let CambrianMemoryTool, MemoryPinningService;
+  let access, registry, owner;
+
+  before(async function () {
+    ({ CambrianMemoryTool } = await tsImport(
+      "../../src/oss/src/graphs/cambrian_memory_tool.ts",
+      import.meta.url,
+    ));
+    ({ MemoryPinningService } = await tsImport(
+      "../../src/oss/src/pinning/memory.ts",
+      import.meta.url,
+    ));
+  });
+
+  beforeEach(async function () {
+    [owner] = await ethers.getSigners();
+    ({ access, registry } = await deployMemoryContracts());
+  });
+
+  function createTool() {
+    return new CambrianMemoryTool({
+      registry: registry.address,
+      access: access.address,
+      vault: ethers.constants.AddressZero,
+      ipfsGateway: "",
+      seiRpcUrl: "",
+      signer: owner,
+      pinning: new MemoryPinningService(),
+    });
+  }
+
+  it("registers a missing stream to the signer before remembering", async function () {
+    const tool = createTool();
+    const first = await tool.executeAction("remember", {
+      text: "likes tea",
+      streamId: "alice",
+    });
+    expect(first.success).to.equal(true);
+
+    const stream = await registry.streams("alice");
+    expect(stream.owner).to.equal(owner.address);
+
+    // Later memories append to the registered stream
+    const second = await tool.executeAction("remember", {
+      text: "lives in Lisbon",
+      streamId: "alice",
+    });
+    expect(second.success).to.equal(true);
+    expect(await registry.getStreamHistory("alice")).to.deep.equal([
+      first.cid,
+      second.cid,
+    ]);
+  });
+});
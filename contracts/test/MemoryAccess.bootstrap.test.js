@@ -0,0 +1,97 @@
+import pkg from "hardhat";
+const { ethers } = pkg;
+import { expect } from "chai";
+import { deployMemoryContracts, expectRevert } from "./helpers.js";
+
+const OWNER = 1; // MemoryAccess.Role.OWNER
+const AGENT = 2; // MemoryAccess.Role.AGENT
+
+describe("MemoryAccess owner bootstrap", function () {
+  let access, registry, deployer, owner, stranger;
+
+  beforeEach(async function () {
+    [deployer, owner, stranger] = await ethers.getSigners();
+    ({ access, registry } = await deployMemoryContracts());
+  });
+
+  it("grants OWNER to the owner when a stream is registered", async function () {
+    await (
+      await registry
+        .connect(owner)
+        .registerStream("alice", owner.address, "private")
+    ).wait();
+
+    expect(await access.isAuthorized("alice", owner.address, "OWNER")).to.equal(
+      true,
+    );
+    const auth = await access.getAuthorization("alice", owner.address, "OWNER");
+    expect(auth.role).to.equal(OWNER);
+  });
+
+  it("lets the owner grant access right after registering", async function () {
+    await (
+      await registry
+        .connect(owner)
+        .registerStream("alice", owner.address, "private")
+    ).wait();
+    await (
+      await access
+        .connect(owner)
+        .authorize("alice", stranger.address, "WRITE", AGENT)
+    ).wait();
+
+    expect(
+      await access.isAuthorized("alice", stranger.address, "WRITE"),
+    ).to.equal(true);
+  });
+
+  it("only lets the owner register a stream for itself", async function () {
+    await expectRevert(
+      registry
+        .connect(stranger)
+        .registerStream("alice", owner.address, "private"),
+      "Only the owner can register a stream",
+    );
+    expect(await registry.streamExists("alice")).to.equal(false);
+    expect(await access.isAuthorized("alice", owner.address, "OWNER")).to.equal(
+      false,
+    );
+  });
+
+  it("rejects bootstrapOwner from anyone but the registry", async function () {
+    for (const caller of [deployer, owner, stranger]) {
+      await expectRevert(
+        access.connect(caller).bootstrapOwner("alice", caller.address),
+        "Only registry can bootstrap owners",
+      );
+    }
+    expect(await access.isAuthorized("alice", owner.address, "OWNER")).to.equal(
+      false,
+    );
+  });
+
+  it("sets the registry only once", async function () {
+    expect(await access.registry()).to.equal(registry.address);
+    await expectRevert(
+      access.setRegistry(stranger.address),
+      "Registry already set",
+    );
+  });
+
+  it("only lets the deployer set the registry", async function () {
+    const MemoryAccess = await ethers.getContractFactory("MemoryAccess");
+    const fresh = await MemoryAccess.deploy();
+    await fresh.deployed();
+
+    await expectRevert(
+      fresh.connect(stranger).setRegistry(stranger.address),
+      "Only deployer can set registry",
+    );
+    await expectRevert(
+      fresh.setRegistry(ethers.constants.AddressZero),
+      "Invalid address",
+    );
+    await (await fresh.setRegistry(registry.address)).wait();
+    expect(await fresh.registry()).to.equal(registry.address);
+  });
+});
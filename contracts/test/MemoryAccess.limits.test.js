@@ -0,0 +1,90 @@
+import pkg from "hardhat";
+const { ethers } = pkg;
+import { expect } from "chai";
+import { deployMemoryContracts, expectRevert } from "./helpers.js";
+
+const AGENT = 2; // MemoryAccess.Role.AGENT
+
+describe("MemoryAccess limits", function () {
+  let access, registry, owner, agent;
+
+  beforeEach(async function () {
+    [owner, agent] = await ethers.getSigners();
+    ({ access, registry } = await deployMemoryContracts());
+    await (
+      await registry.registerStream("alice", owner.address, "private")
+    ).wait();
+  });
+
+  it("rejects scoped WRITE grants", async function () {
+    await expectRevert(
+      access.authorizeWithLimits(
+        "alice",
+        agent.address,
+        "WRITE",
+        AGENT,
+        0,
+        "agent:support-bot",
+        0,
+      ),
+      "WRITE grants can't be scoped",
+    );
+  });
+
+  it("limits scoped READ grants to their scope", async function () {
+    await (
+      await access.authorizeWithLimits(
+        "alice",
+        agent.address,
+        "READ",
+        AGENT,
+        0,
+        "agent:support-bot",
+        0,
+      )
+    ).wait();
+
+    expect(
+      await access.isAuthorizedForScope(
+        "alice",
+        agent.address,
+        "READ",
+        "agent:support-bot",
+      ),
+    ).to.equal(true);
+    expect(await access.isAuthorized("alice", agent.address, "READ")).to.equal(
+      false,
+    );
+  });
+
+  it("lapses once maxReads reads are recorded", async function () {
+    await (
+      await access.authorizeWithLimits(
+        "alice",
+        agent.address,
+        "READ",
+        AGENT,
+        0,
+        "",
+        2,
+      )
+    ).wait();
+
+    for (let i = 0; i < 2; i++) {
+      expect(
+        await access.isAuthorized("alice", agent.address, "READ"),
+      ).to.equal(true);
+      await (
+        await access.connect(agent).recordRead("alice", agent.address, "READ")
+      ).wait();
+    }
+
+    expect(await access.isAuthorized("alice", agent.address, "READ")).to.equal(
+      false,
+    );
+    await expectRevert(
+      access.connect(agent).recordRead("alice", agent.address, "READ"),
+      "Authorization not active",
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import pkg from "hardhat";
+const { ethers } = pkg;
+import { expect } from "chai";
+import {
+  decodeEvent,
+  deployMemoryContracts,
+  expectRevert,
+  merkleRoot,
+} from "./helpers.js";
+
+const AGENT = 2; // MemoryAccess.Role.AGENT
+
+function batch(size, prefix = "cid") {
+  const cids = Array.from({ length: size }, (_, i) => `${prefix}-${i}`);
+  return [cids, cids.map(merkleRoot), cids.map((cid) => `{"cid":"${cid}"}`)];
+}
+
+describe("MemoryRegistry.batchAppend", function () {
+  let access, registry, owner, agent, stranger;
+
+  beforeEach(async function () {
+    [owner, agent, stranger] = await ethers.getSigners();
+    ({ access, registry } = await deployMemoryContracts());
+    await (
+      await registry.registerStream("alice", owner.address, "default")
+    ).wait();
+  });
+
+  it("appends every item in order and moves the head to the last one", async function () {
+    const [cids, roots, metadata] = batch(3);
+    await (await registry.batchAppend("alice", cids, roots, metadata)).wait();
+
+    expect(await registry.getStreamHistory("alice")).to.deep.equal(cids);
+    const head = await registry.getHead("alice");
+    expect(head.cid).to.equal("cid-2");
+    expect(head.merkleRoot).to.equal(roots[2]);
+  });
+
+  it("emits one MemoryAppended event per item", async function () {
+    const [cids, roots, metadata] = batch(4);
+    const receipt = await (
+      await registry.batchAppend("alice", cids, roots, metadata)
+    ).wait();
+
+    const appended = receipt.events
+      .filter((event) => event.event === "MemoryAppended")
+      .map((event) => decodeEvent(registry, event));
+    expect(appended.map((event) => event.cid)).to.deep.equal(cids);
+    expect(appended.map((event) => event.merkleRoot)).to.deep.equal(roots);
+    expect(appended.map((event) => event.metadata)).to.deep.equal(metadata);
+    expect(appended.map((event) => event.stream)).to.deep.equal(
+      cids.map(() => "alice"),
+    );
+  });
+
+  it("accepts exactly MAX_BATCH_SIZE items", async function () {
+    const max = (await registry.MAX_BATCH_SIZE()).toNumber();
+    await (await registry.batchAppend("alice", ...batch(max))).wait();
+
+    expect(await registry.getStreamHistory("alice")).to.have.length(max);
+  });
+
+  it("rejects batches over MAX_BATCH_SIZE", async function () {
+    const max = (await registry.MAX_BATCH_SIZE()).toNumber();
+    await expectRevert(
+      registry.batchAppend("alice", ...batch(max + 1)),
+      "Batch too large",
+    );
+  });
+
+  it("rejects empty and mismatched batches", async function () {
+    await expectRevert(
+      registry.batchAppend("alice", [], [], []),
+      "Empty batch",
+    );
+
+    const [cids, roots, metadata] = batch(2);
+    await expectRevert(
+      registry.batchAppend("alice", cids, roots.slice(1), metadata),
+      "Batch length mismatch",
+    );
+  });
+
+  it("rejects batches for streams that don't exist", async function () {
+    await expectRevert(
+      registry.batchAppend("bob", ...batch(1)),
+      "Stream does not exist",
+    );
+  });
+
+  it("reverts for callers without WRITE and leaves the stream untouched", async function () {
+    await expectRevert(
+      registry.connect(stranger).batchAppend("alice", ...batch(2)),
+      "Not authorized to write",
+    );
+    expect(await registry.getStreamHistory("alice")).to.have.length(0);
+  });
+
+  it("accepts batches from WRITE grantees", async function () {
+    await (
+      await access.authorize("alice", agent.address, "WRITE", AGENT)
+    ).wait();
+    await (
+      await registry.connect(agent).batchAppend("alice", ...batch(2, "agent"))
+    ).wait();
+
+    expect(await registry.getStreamHistory("alice")).to.deep.equal([
+      "agent-0",
+      "agent-1",
+    ]);
+  });
+
+  it("stops accepting batches once WRITE is revoked", async function () {
+    await (
+      await access.authorize("alice", agent.address, "WRITE", AGENT)
+    ).wait();
+    await (await access.revoke("alice", agent.address, "WRITE")).wait();
+
+    await expectRevert(
+      registry.connect(agent).batchAppend("alice", ...batch(1)),
+      "Not authorized to write",
+    );
+  });
+});
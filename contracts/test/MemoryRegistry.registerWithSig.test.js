@@ -0,0 +1,135 @@
+import pkg from "hardhat";
+const { ethers } = pkg;
+import { expect } from "chai";
+import { tsImport } from "tsx/esm/api";
+import {
+  decodeEvent,
+  deployMemoryContracts,
+  expectRevert,
+  merkleRoot,
+} from "./helpers.js";
+
+describe("MemoryRegistry.registerStreamWithSig", function () {
+  let delegation, AppendRelayer;
+  let access, registry, owner, relayerAccount, stranger;
+
+  before(async function () {
+    delegation = await tsImport(
+      "../../src/oss/src/contracts/delegation.ts",
+      import.meta.url,
+    );
+    ({ AppendRelayer } = await tsImport(
+      "../../src/client/relayer.ts",
+      import.meta.url,
+    ));
+  });
+
+  beforeEach(async function () {
+    [owner, relayerAccount, stranger] = await ethers.getSigners();
+    ({ access, registry } = await deployMemoryContracts());
+  });
+
+  function deadline() {
+    return Math.floor(Date.now() / 1000) + 600;
+  }
+
+  async function signRegister(signer, streamId, nonce) {
+    return delegation.signRegister(
+      signer,
+      registry.address,
+      {
+        streamId,
+        owner: owner.address,
+        policy: "default",
+        deadline: deadline(),
+      },
+      nonce ?? (await registry.nonces(owner.address)),
+    );
+  }
+
+  function createRelayer(registerStreamsFor) {
+    return new AppendRelayer({
+      signer: relayerAccount,
+      registryAddress: registry.address,
+      accessAddress: access.address,
+      registerStreamsFor,
+    });
+  }
+
+  it("registers a stream the owner signed for", async function () {
+    const signed = await signRegister(owner, "alice");
+    const receipt = await (
+      await registry
+        .connect(relayerAccount)
+        .registerStreamWithSig(signed.intent, signed.signature)
+    ).wait();
+
+    const registered = receipt.events.find(
+      (event) => event.event === "StreamRegistered",
+    );
+    const args = decodeEvent(registry, registered);
+    expect(args.owner).to.equal(owner.address);
+    expect(args.stream).to.equal("alice");
+
+    const stream = await registry.streams("alice");
+    expect(stream.owner).to.equal(owner.address);
+    expect(await access.isAuthorized("alice", owner.address, "OWNER")).to.equal(
+      true,
+    );
+    expect((await registry.nonces(owner.address)).toNumber()).to.equal(1);
+  });
+
+  it("rejects registrations not signed by the owner", async function () {
+    const signed = await signRegister(stranger, "alice");
+    await expectRevert(
+      registry
+        .connect(relayerAccount)
+        .registerStreamWithSig(signed.intent, signed.signature),
+      "Invalid signature",
+    );
+    expect(await registry.streamExists("alice")).to.equal(false);
+  });
+
+  it("shares the nonce with append intents", async function () {
+    const registration = await signRegister(owner, "alice", 0);
+    const append = await delegation.signAppend(
+      owner,
+      registry.address,
+      {
+        streamId: "alice",
+        cid: "cid-0",
+        merkleRoot: merkleRoot("cid-0"),
+        metadata: "{}",
+        author: owner.address,
+        deadline: deadline(),
+      },
+      0,
+    );
+
+    await (
+      await registry
+        .connect(relayerAccount)
+        .registerStreamWithSig(registration.intent, registration.signature)
+    ).wait();
+    await expectRevert(
+      registry
+        .connect(relayerAccount)
+        .appendWithSig(append.intent, append.signature),
+      "Invalid signature",
+    );
+  });
+
+  it("only relays registrations for allowlisted owners", async function () {
+    const signed = await signRegister(owner, "alice");
+
+    let error;
+    await createRelayer()
+      .register(signed)
+      .catch((caught) => (error = caught));
+    expect(error?.name).to.equal("AccessDeniedError");
+    expect(await registry.streamExists("alice")).to.equal(false);
+
+    await createRelayer([owner.address]).register(signed);
+    expect(await registry.streamExists("alice")).to.equal(true);
+  });
+});
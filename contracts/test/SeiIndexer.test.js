@@ -0,0 +1,386 @@
+import pkg from "hardhat";
+const { ethers, network } = pkg;
+import { JsonRpcServer } from "hardhat/internal/hardhat-network/jsonrpc/server.js";
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { tsImport } from "tsx/esm/api";
+import { deployMemoryContracts, merkleRoot } from "./helpers.js";
+
+// Private key of the second default Hardhat account
+const HARDHAT_ACCOUNT_1_KEY =
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+// Vector store that keeps inserted payloads in memory
+function createVectorStore() {
+  const vectors = new Map();
+  return {
+    vectors,
+    async insert(embeddings, ids, payloads) {
+      ids.forEach((id, i) => vectors.set(id, payloads[i]));
+    },
+    async delete(id) {
+      vectors.delete(id);
+    },
+    async search(query, limit, filters) {
+      return [...vectors]
+        .filter(([, payload]) => payload.streamId === filters.streamId)
+        .slice(0, limit)
+        .map(([id, payload]) => ({ id, score: 1, payload }));
+    },
+  };
+}
+
+describe("SeiIndexer on a local Hardhat node", function () {
+  let server, rpcUrl, SeiIndexer, MemoryPinningService, merkle, delegation;
+  let access, registry, owner, indexerAccount, pinning, vectorStore;
+
+  before(async function () {
+    // The indexer talks JSON-RPC, so serve the in-process network over HTTP
+    server = new JsonRpcServer({
+      hostname: "127.0.0.1",
+      port: 0,
+      provider: network.provider,
+    });
+    const { address, port } = await server.listen();
+    rpcUrl = `http://${address}:${port}`;
+
+    ({ SeiIndexer } = await tsImport(
+      "../../src/oss/src/vector_stores/sei_indexer.ts",
+      import.meta.url,
+    ));
+    ({ MemoryPinningService } = await tsImport(
+      "../../src/oss/src/pinning/memory.ts",
+      import.meta.url,
+    ));
+    merkle = await tsImport(
+      "../../src/oss/src/utils/merkle.ts",
+      import.meta.url,
+    );
+    delegation = await tsImport(
+      "../../src/oss/src/contracts/delegation.ts",
+      import.meta.url,
+    );
+  });
+
+  after(async function () {
+    await server.close();
+  });
+
+  beforeEach(async function () {
+    [owner, indexerAccount] = await ethers.getSigners();
+    ({ access, registry } = await deployMemoryContracts());
+    await (
+      await registry.registerStream("alice", owner.address, "default")
+    ).wait();
+    pinning = new MemoryPinningService();
+    vectorStore = createVectorStore();
+  });
+
+  async function createIndexer(config = {}) {
+    return new SeiIndexer({
+      seiRpcUrl: rpcUrl,
+      registryAddress: registry.address,
+      accessAddress: access.address,
+      ipfsGateway: "",
+      pinning,
+      vectorStore,
+      embedder: { embed: async (text) => [text.length] },
+      confirmations: 0,
+      startBlock: registry.deployTransaction.blockNumber,
+      ...config,
+    });
+  }
+
+  async function appendMemory(streamId, content) {
+    const cid = await pinning.add({ content, metadata: { content } });
+    await (await registry.append(streamId, cid, merkleRoot(cid), "{}")).wait();
+    return cid;
+  }
+
+  it("indexes appended memories and checkpoints the head", async function () {
+    const first = await appendMemory("alice", "likes tea");
+    const second = await appendMemory("alice", "lives in Lisbon");
+
+    const indexer = await createIndexer();
+    await indexer.catchUp();
+
+    expect([...vectorStore.vectors.keys()]).to.deep.equal([first, second]);
+    expect(vectorStore.vectors.get(first)).to.include({
+      streamId: "alice",
+      merkleRoot: merkleRoot(first),
+    });
+    const checkpoint = indexer.getCheckpoint();
+    expect(checkpoint.lastProcessedBlock).to.equal(
+      await ethers.provider.getBlockNumber(),
+    );
+    expect(checkpoint.pending).to.deep.equal([]);
+  });
+
+  it("indexes batched and relayed appends under their stream", async function () {
+    await (
+      await registry.registerStream("bob", owner.address, "default")
+    ).wait();
+    const batched = [
+      await pinning.add({ content: "likes tea" }),
+      await pinning.add({ content: "lives in Lisbon" }),
+    ];
+    await (
+      await registry.batchAppend(
+        "bob",
+        batched,
+        batched.map(merkleRoot),
+        batched.map(() => "{}"),
+      )
+    ).wait();
+
+    // Relayed through appendWithSig by another account
+    const relayed = await pinning.add({ content: "has a cat" });
+    const signed = await delegation.signAppend(
+      owner,
+      registry.address,
+      {
+        streamId: "alice",
+        cid: relayed,
+        merkleRoot: merkleRoot(relayed),
+        metadata: "{}",
+        author: owner.address,
+        deadline: Math.floor(Date.now() / 1000) + 600,
+      },
+      await registry.nonces(owner.address),
+    );
+    await (
+      await registry
+        .connect(indexerAccount)
+        .appendWithSig(signed.intent, signed.signature)
+    ).wait();
+
+    const indexer = await createIndexer();
+    await indexer.catchUp();
+
+    for (const cid of batched) {
+      expect(vectorStore.vectors.get(cid)).to.include({ streamId: "bob" });
+    }
+    expect(vectorStore.vectors.get(relayed)).to.include({ streamId: "alice" });
+  });
+
+  it("refuses registries that predate the current MemoryAppended event", async function () {
+    // MemoryAccess stands in for an old registry: it has no such event
+    const indexer = await createIndexer({ registryAddress: access.address });
+
+    let error;
+    await indexer.catchUp().catch((caught) => (error = caught));
+    expect(error?.name).to.equal("ConfigurationError");
+    expect(error.message).to.include("predates the current MemoryAppended");
+  });
+
+  it("retries memories whose content could not be fetched", async function () {
+    const cid = await appendMemory("alice", "likes tea");
+
+    // The first fetch fails, as if the gateway were down
+    const get = pinning.get.bind(pinning);
+    let failures = 1;
+    pinning.get = async (requested) => {
+      if (failures-- > 0) throw new Error("gateway timeout");
+      return get(requested);
+    };
+
+    const indexer = await createIndexer();
+    await indexer.catchUp();
+
+    expect(vectorStore.vectors.has(cid)).to.equal(false);
+    let checkpoint = indexer.getCheckpoint();
+    expect(checkpoint.lastProcessedBlock).to.equal(
+      await ethers.provider.getBlockNumber(),
+    );
+    expect(checkpoint.pending.map((memory) => memory.cid)).to.deep.equal([cid]);
+
+    await indexer.catchUp();
+
+    expect(vectorStore.vectors.get(cid)).to.include({ streamId: "alice" });
+    checkpoint = indexer.getCheckpoint();
+    expect(checkpoint.pending).to.deep.equal([]);
+  });
+
+  it("keeps memories pending while the embedder fails", async function () {
+    const cid = await appendMemory("alice", "likes tea");
+
+    let failures = 1;
+    const indexer = await createIndexer({
+      embedder: {
+        embed: async (text) => {
+          if (failures-- > 0) throw new Error("rate limited");
+          return [text.length];
+        },
+      },
+    });
+    await indexer.catchUp();
+
+    expect(vectorStore.vectors.has(cid)).to.equal(false);
+    expect(
+      indexer.getCheckpoint().pending.map((memory) => memory.cid),
+    ).to.deep.equal([cid]);
+
+    await indexer.catchUp();
+    expect(vectorStore.vectors.get(cid)).to.include({ streamId: "alice" });
+    expect(indexer.getCheckpoint().pending).to.deep.equal([]);
+  });
+
+  it("drops a memory after maxIndexRetries attempts", async function () {
+    await appendMemory("alice", "likes tea");
+    pinning.get = async () => {
+      throw new Error("gateway timeout");
+    };
+
+    const indexer = await createIndexer({ maxIndexRetries: 2 });
+    await indexer.catchUp();
+    expect(indexer.getCheckpoint().pending).to.have.length(1);
+
+    await indexer.catchUp();
+    expect(indexer.getCheckpoint().pending).to.deep.equal([]);
+    expect(vectorStore.vectors.size).to.equal(0);
+  });
+
+  it("publishes index roots only once the owner authorizes it", async function () {
+    const cids = [
+      await appendMemory("alice", "likes tea"),
+      await appendMemory("alice", "lives in Lisbon"),
+    ];
+    const indexer = await createIndexer({
+      privateKey: HARDHAT_ACCOUNT_1_KEY,
+      maxPublishRetries: 1,
+    });
+    await indexer.catchUp();
+
+    await indexer.updateIndexRoots();
+    expect(await registry.getIndexRoot("alice")).to.equal(
+      ethers.constants.HashZero,
+    );
+
+    await (
+      await registry.setAuthorizedIndexer("alice", indexerAccount.address)
+    ).wait();
+    await indexer.updateIndexRoots();
+    expect(await registry.getIndexRoot("alice")).to.equal(
+      merkle.computeMerkleRoot(cids.map(merkle.cidLeaf)),
+    );
+  });
+
+  it("publishes roots over indexed memories only", async function () {
+    await (
+      await registry.setAuthorizedIndexer("alice", indexerAccount.address)
+    ).wait();
+    const indexed = await appendMemory("alice", "likes tea");
+
+    // The second memory can't be fetched yet, so it stays pending
+    const pending = await appendMemory("alice", "lives in Lisbon");
+    const get = pinning.get.bind(pinning);
+    let available = false;
+    pinning.get = async (requested) => {
+      if (requested === pending && !available) {
+        throw new Error("gateway timeout");
+      }
+      return get(requested);
+    };
+
+    const indexer = await createIndexer({ privateKey: HARDHAT_ACCOUNT_1_KEY });
+    await indexer.catchUp();
+    await indexer.updateIndexRoots();
+    expect(await registry.getIndexRoot("alice")).to.equal(
+      merkle.computeMerkleRoot([merkle.cidLeaf(indexed)]),
+    );
+
+    available = true;
+    await indexer.catchUp();
+    await indexer.updateIndexRoots();
+    expect(await registry.getIndexRoot("alice")).to.equal(
+      merkle.computeMerkleRoot([indexed, pending].map(merkle.cidLeaf)),
+    );
+  });
+
+  it("resumes publishing index roots after a restart", async function () {
+    const checkpointPath = path.join(
+      os.tmpdir(),
+      `seim0-indexer-${Date.now()}.json`,
+    );
+    const cid = await appendMemory("alice", "likes tea");
+    await (await createIndexer({ checkpointPath })).catchUp();
+
+    // The owner authorizes publishing only after the first run
+    await (
+      await registry.setAuthorizedIndexer("alice", indexerAccount.address)
+    ).wait();
+    const restarted = await createIndexer({
+      checkpointPath,
+      privateKey: HARDHAT_ACCOUNT_1_KEY,
+    });
+    await restarted.catchUp();
+    await restarted.updateIndexRoots();
+    await fs.rm(checkpointPath);
+
+    expect(await registry.getIndexRoot("alice")).to.equal(
+      merkle.computeMerkleRoot([merkle.cidLeaf(cid)]),
+    );
+  });
+
+  it("proves search results against the published index root", async function () {
+    await (
+      await registry.setAuthorizedIndexer("alice", indexerAccount.address)
+    ).wait();
+    const published = [
+      await appendMemory("alice", "likes tea"),
+      await appendMemory("alice", "lives in Lisbon"),
+    ];
+    const indexer = await createIndexer({ privateKey: HARDHAT_ACCOUNT_1_KEY });
+    await indexer.catchUp();
+    await indexer.updateIndexRoots();
+
+    // Indexed, but not covered by a published root yet
+    const unpublished = await appendMemory("alice", "has a cat");
+    await indexer.catchUp();
+
+    // Proofs don't depend on what this process indexed
+    const restarted = await createIndexer();
+    const results = await restarted.search("alice", "tea", 10);
+    const proofs = Object.fromEntries(
+      results.map(({ results: [result] }) => [
+        result.id,
+        result.metadata.proof,
+      ]),
+    );
+
+    const root = await registry.getIndexRoot("alice");
+    for (const cid of published) {
+      expect(proofs[cid].root).to.equal(root);
+      expect(
+        merkle.verifyProof(merkle.cidLeaf(cid), proofs[cid].proof, root),
+      ).to.equal(true);
+    }
+    expect(proofs[unpublished]).to.equal(null);
+  });
+
+  it("keeps publishing other streams when one stream fails", async function () {
+    await (
+      await registry.registerStream("bob", owner.address, "default")
+    ).wait();
+    await appendMemory("alice", "likes tea");
+    const cid = await appendMemory("bob", "lives in Lisbon");
+    const indexer = await createIndexer({ privateKey: HARDHAT_ACCOUNT_1_KEY });
+    await indexer.catchUp();
+    await (
+      await registry.setAuthorizedIndexer("bob", indexerAccount.address)
+    ).wait();
+
+    const getIndexedLeaves = indexer.getIndexedLeaves.bind(indexer);
+    indexer.getIndexedLeaves = async (streamId) => {
+      if (streamId === "alice") throw new Error("RPC timeout");
+      return getIndexedLeaves(streamId);
+    };
+    await indexer.updateIndexRoots();
+
+    expect(await registry.getIndexRoot("bob")).to.equal(
+      merkle.computeMerkleRoot([merkle.cidLeaf(cid)]),
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import pkg from "hardhat";
+const { ethers } = pkg;
+import { expect } from "chai";
+
+// Fresh MemoryAccess + MemoryRegistry pair, linked the way deploy.js links them
+export async function deployMemoryContracts() {
+  const MemoryAccess = await ethers.getContractFactory("MemoryAccess");
+  const access = await MemoryAccess.deploy();
+  await access.deployed();
+
+  const MemoryRegistry = await ethers.getContractFactory("MemoryRegistry");
+  const registry = await MemoryRegistry.deploy(access.address);
+  await registry.deployed();
+
+  await (await access.setRegistry(registry.address)).wait();
+  return { access, registry };
+}
+
+export async function expectRevert(promise, reason) {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error.message).to.include(reason);
+    return;
+  }
+  expect.fail(`Expected revert with "${reason}"`);
+}
+
+export function merkleRoot(cid) {
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(cid));
+}
+
+// ethers 5 drops the named keys of event.args when an event has an indexed
+// string, so decode the log again through the interface
+export function decodeEvent(contract, event) {
+  return contract.interface.decodeEventLog(
+    event.event,
+    event.data,
+    event.topics,
+  );
+}
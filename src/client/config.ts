@@ -1,8 +1,13 @@
 import { SeiConfig, Network } from "./seim0.types";
+import {
+  DeploymentInfo,
+  loadDeployment,
+} from "../oss/src/contracts/deployment";
 
 export const DEFAULT_CONFIGS: Record<Network, SeiConfig> = {
   testnet: {
     rpcUrl: "https://evm-rpc-testnet.sei-apis.com",
+    // Older contracts: features they lack are checked for and need a `deployment`
     registryAddress: "0xEd71E25bE660D346E05d76d478f1FD762e74ec76",
     accessAddress: "0x3027A2548f2C4D42efb44274A7e2217dedBfAdCF",
     vaultAddress: "0x86D143Cd76f012a3d68154058FEc6315e4e0487D",
@@ -10,9 +15,10 @@ export const DEFAULT_CONFIGS: Record<Network, SeiConfig> = {
   },
   mainnet: {
     rpcUrl: "https://evm-rpc.sei-apis.com",
-    registryAddress: "0x...", // TODO: Deploy mainnet contracts
-    accessAddress: "0x...", // TODO: Deploy mainnet contracts
-    vaultAddress: "0x...", // TODO: Deploy mainnet contracts
+    // Not deployed yet, pass a `deployment` to use mainnet
+    registryAddress: "",
+    accessAddress: "",
+    vaultAddress: "",
     ipfsGateway: "https://gateway.pinata.cloud/ipfs/",
   },
 };
@@ -20,3 +26,21 @@ export const DEFAULT_CONFIGS: Record<Network, SeiConfig> = {
 export function getNetworkConfig(network: Network): SeiConfig {
   return { ...DEFAULT_CONFIGS[network] };
 }
+
+/**
+ * Point a config at the contracts in a deployment-info.json written by
+ * contracts/scripts/deploy.js, e.g. for a local or private network
+ */
+export function applyDeployment(
+  config: SeiConfig,
+  source: string | DeploymentInfo,
+): SeiConfig {
+  const deployment = loadDeployment(source);
+  return {
+    ...config,
+    registryAddress: deployment.contracts.MemoryRegistry,
+    accessAddress: deployment.contracts.MemoryAccess,
+    vaultAddress: deployment.contracts.PaymentVault,
+    startBlock: deployment.startBlock ?? config.startBlock,
+  };
+}
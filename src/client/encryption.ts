@@ -0,0 +1,126 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from "crypto";
+import { ConfigurationError } from "./errors";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_DERIVATION_MESSAGE =
+  "seim0: derive memory encryption key\n\nSigning this message does not send a transaction.";
+
+export interface EncryptedEnvelope {
+  encrypted: true;
+  version: 1;
+  algorithm: typeof ALGORITHM;
+  keyId: string; // Fingerprint of the key, so a wrong key fails with a clear error
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export function isEncryptedEnvelope(value: any): value is EncryptedEnvelope {
+  return (
+    !!value &&
+    value.encrypted === true &&
+    value.algorithm === ALGORITHM &&
+    typeof value.ciphertext === "string"
+  );
+}
+
+/**
+ * Parse a 32-byte key given as hex (with or without 0x) or base64
+ */
+export function parseEncryptionKey(key: string | Uint8Array): Buffer {
+  const buffer =
+    typeof key !== "string"
+      ? Buffer.from(key)
+      : /^(0x)?[0-9a-fA-F]{64}$/.test(key)
+        ? Buffer.from(key.replace(/^0x/, ""), "hex")
+        : Buffer.from(key, "base64");
+
+  if (buffer.length !== 32) {
+    throw new ConfigurationError(
+      "Encryption key must be 32 bytes (hex or base64)",
+    );
+  }
+  return buffer;
+}
+
+/**
+ * Derive a key from a signature over a fixed message. Wallets sign
+ * deterministically (RFC 6979), so the same signer always yields the same key.
+ */
+export async function deriveEncryptionKey(signer: any): Promise<Buffer> {
+  const signature: string = await signer.signMessage(KEY_DERIVATION_MESSAGE);
+  return Buffer.from(
+    hkdfSync(
+      "sha256",
+      Buffer.from(signature.replace(/^0x/, ""), "hex"),
+      Buffer.alloc(0),
+      "seim0-memory-encryption-v1",
+      32,
+    ),
+  );
+}
+
+export function getKeyId(key: Buffer): string {
+  return Buffer.from(
+    hkdfSync("sha256", key, Buffer.alloc(0), "seim0-key-id", 8),
+  ).toString("hex");
+}
+
+export function encryptDocument(document: any, key: Buffer): EncryptedEnvelope {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(document), "utf8"),
+    cipher.final(),
+  ]);
+
+  return {
+    encrypted: true,
+    version: 1,
+    algorithm: ALGORITHM,
+    keyId: getKeyId(key),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+export function decryptDocument(envelope: EncryptedEnvelope, key: Buffer): any {
+  if (envelope.keyId !== getKeyId(key)) {
+    throw new Error(
+      `Document was encrypted with a different key (${envelope.keyId})`,
+    );
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    Buffer.from(envelope.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(envelope.ciphertext, "base64")),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString("utf8"));
+}
+
+/**
+ * Derive a per-stream key, so sharing one stream never exposes the others
+ */
+export function deriveStreamKey(masterKey: Buffer, streamId: string): Buffer {
+  return Buffer.from(
+    hkdfSync(
+      "sha256",
+      masterKey,
+      Buffer.alloc(0),
+      `seim0-stream-key:${streamId}`,
+      32,
+    ),
+  );
+}
@@ -0,0 +1,2 @@
+// The client shares the OSS error taxonomy, so both throw the same classes
+export * from "../oss/src/utils/errors";
@@ -13,7 +13,62 @@ export type {
   SeiConfig,
   Network,
   SimpleConfig,
+  EncryptionConfig,
+  MemoryMode,
+  WriteBatchingConfig,
+  OutboxConfig,
+  DeliveryStatus,
+  SeiDelivery,
+  SeiStreamInfo,
+  CreateStreamOptions,
+  SeiGrant,
+  GrantOptions,
+  ListGrantsOptions,
 } from "./seim0.types";
+export type { StreamKeyring } from "./keyring";
+export { AppendRelayer } from "./relayer";
+export { VaultClient } from "./vault";
+export type {
+  VaultClientConfig,
+  VaultEvent,
+  VaultEventQuery,
+  VaultEventType,
+  UsdcAmount,
+} from "./vault";
+export type { AppendRelay, AppendRelayerConfig } from "./relayer";
+export { signAppend, signRegister } from "../oss/src/contracts";
+export type {
+  AppendIntent,
+  SignedAppend,
+  RegisterIntent,
+  SignedRegister,
+} from "../oss/src/contracts";
+export type { PinningService } from "../oss/src/pinning/base";
+export type { DeploymentInfo } from "../oss/src/contracts/deployment";
+export { AccessRole } from "../oss/src/contracts";
+export type { GrantScope } from "../oss/src/contracts";
+export type {
+  StreamNamingConfig,
+  StreamResolver,
+  StreamIdentity,
+} from "../oss/src/utils/stream";
+
+export {
+  Seim0Error,
+  ConfigurationError,
+  ValidationError,
+  MemoryNotFoundError,
+  LLMError,
+  EmbeddingError,
+  VectorStoreError,
+  IpfsUploadError,
+  IpfsFetchError,
+  IndexQueryError,
+  ChainTxError,
+  AccessDeniedError,
+  InsufficientBalanceError,
+} from "./errors";
+export type { Seim0ErrorCode } from "./errors";
 
 // Export the main Sei client
 export { MemoryClient };
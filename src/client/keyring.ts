@@ -0,0 +1,232 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from "crypto";
+import { ethers } from "ethers";
+import {
+  EncryptedEnvelope,
+  decryptDocument,
+  encryptDocument,
+  getKeyId,
+} from "./encryption";
+import { AccessDeniedError, ValidationError } from "./errors";
+import { encodeDagJson } from "../oss/src/utils/cid";
+
+// Content key encrypted for one recipient with ECIES over secp256k1
+export interface WrappedKey {
+  ephemeralPublicKey: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export interface KeyringRecipient {
+  publicKey: string;
+  wrappedKey: WrappedKey;
+}
+
+export interface StreamKeyring {
+  keyVersion: number;
+  keyId: string; // Fingerprint of the current content key
+  recipients: Record<string, KeyringRecipient>; // Checksummed address => wrapped key
+  previousKeys?: EncryptedEnvelope; // Older content keys, encrypted with the current one
+  signature?: string; // By the stream owner or an ADMIN, see signKeyring
+}
+
+function deriveWrappingKey(sharedSecret: string, ephemeralPublicKey: string) {
+  return Buffer.from(
+    hkdfSync(
+      "sha256",
+      ethers.utils.arrayify(sharedSecret),
+      ethers.utils.arrayify(ephemeralPublicKey),
+      "seim0-key-wrap-v1",
+      32,
+    ),
+  );
+}
+
+function checkPublicKey(address: string, publicKey: string): string {
+  const checksummed = ethers.utils.getAddress(address);
+  if (ethers.utils.computeAddress(publicKey) !== checksummed) {
+    throw new ValidationError(`Public key does not belong to ${checksummed}`);
+  }
+  return checksummed;
+}
+
+export function wrapKey(contentKey: Buffer, publicKey: string): WrappedKey {
+  const ephemeral = new ethers.utils.SigningKey(randomBytes(32));
+  const wrappingKey = deriveWrappingKey(
+    ephemeral.computeSharedSecret(publicKey),
+    ephemeral.publicKey,
+  );
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", wrappingKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(contentKey), cipher.final()]);
+
+  return {
+    ephemeralPublicKey: ephemeral.publicKey,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+export function unwrapKey(
+  wrapped: WrappedKey,
+  signingKey: ethers.utils.SigningKey,
+): Buffer {
+  const wrappingKey = deriveWrappingKey(
+    signingKey.computeSharedSecret(wrapped.ephemeralPublicKey),
+    wrapped.ephemeralPublicKey,
+  );
+
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    wrappingKey,
+    Buffer.from(wrapped.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(wrapped.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(wrapped.ciphertext, "base64")),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Create a keyring that shares `contentKey` with every recipient
+ */
+export function createKeyring(
+  contentKey: Buffer,
+  recipients: Record<string, string>, // address => uncompressed public key
+  keyVersion: number = 1,
+  previousKeys: Buffer[] = [],
+): StreamKeyring {
+  const keyring: StreamKeyring = {
+    keyVersion,
+    keyId: getKeyId(contentKey),
+    recipients: {},
+  };
+
+  for (const [address, publicKey] of Object.entries(recipients)) {
+    keyring.recipients[checkPublicKey(address, publicKey)] = {
+      publicKey,
+      wrappedKey: wrapKey(contentKey, publicKey),
+    };
+  }
+
+  if (previousKeys.length > 0) {
+    keyring.previousKeys = encryptDocument(
+      previousKeys.map((key) => key.toString("hex")),
+      contentKey,
+    );
+  }
+
+  return keyring;
+}
+
+/**
+ * Wrap the current content key for one more recipient
+ */
+export function addRecipient(
+  keyring: StreamKeyring,
+  contentKey: Buffer,
+  address: string,
+  publicKey: string,
+): StreamKeyring {
+  return {
+    ...keyring,
+    recipients: {
+      ...keyring.recipients,
+      [checkPublicKey(address, publicKey)]: {
+        publicKey,
+        wrappedKey: wrapKey(contentKey, publicKey),
+      },
+    },
+  };
+}
+
+/**
+ * Drop a recipient and rotate to a fresh content key, so future writes are
+ * unreadable for them. Remaining recipients keep access to older keys.
+ */
+export function rotateKeyring(
+  keyring: StreamKeyring,
+  keys: Buffer[],
+  removedAddress: string,
+): { keyring: StreamKeyring; contentKey: Buffer } {
+  const removed = ethers.utils.getAddress(removedAddress);
+  const remaining: Record<string, string> = {};
+  for (const [address, recipient] of Object.entries(keyring.recipients)) {
+    if (address !== removed) {
+      remaining[address] = recipient.publicKey;
+    }
+  }
+
+  const contentKey = randomBytes(32);
+  return {
+    keyring: createKeyring(contentKey, remaining, keyring.keyVersion + 1, keys),
+    contentKey,
+  };
+}
+
+function keyringDigest(keyring: StreamKeyring): Uint8Array {
+  const { signature, ...unsigned } = keyring;
+  return ethers.utils.arrayify(ethers.utils.keccak256(encodeDagJson(unsigned)));
+}
+
+/**
+ * Sign a keyring so readers can tell it was published by someone allowed to
+ * share the stream's keys, not just any WRITE grantee
+ */
+export async function signKeyring(
+  keyring: StreamKeyring,
+  signer: ethers.Signer,
+): Promise<StreamKeyring> {
+  const { signature, ...unsigned } = keyring;
+  return {
+    ...unsigned,
+    signature: await signer.signMessage(keyringDigest(unsigned)),
+  };
+}
+
+/**
+ * Address that signed a keyring, or null when it is unsigned or the
+ * signature is malformed
+ */
+export function recoverKeyringSigner(keyring: StreamKeyring): string | null {
+  if (!keyring.signature) return null;
+  try {
+    return ethers.utils.verifyMessage(
+      keyringDigest(keyring),
+      keyring.signature,
+    );
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Unwrap every content key the keyring gives `signingKey` access to,
+ * current key first
+ */
+export function openKeyring(
+  keyring: StreamKeyring,
+  signingKey: ethers.utils.SigningKey,
+): Buffer[] {
+  const address = ethers.utils.computeAddress(signingKey.publicKey);
+  const recipient = keyring.recipients[address];
+  if (!recipient) {
+    throw new AccessDeniedError(
+      `${address} is not a recipient of this stream's keys`,
+    );
+  }
+
+  const contentKey = unwrapKey(recipient.wrappedKey, signingKey);
+  const previousKeys: string[] = keyring.previousKeys
+    ? decryptDocument(keyring.previousKeys, contentKey)
+    : [];
+  return [contentKey, ...previousKeys.map((key) => Buffer.from(key, "hex"))];
+}
@@ -0,0 +1,232 @@
+import { randomUUID } from "crypto";
+import sqlite3 from "sqlite3";
+import type { DeliveryStatus, SeiDelivery } from "./seim0.types";
+
+export interface OutboxEntry extends SeiDelivery {
+  payload: any; // Queued document, replaced by what was pinned (encrypted if needed)
+  metadata: string; // Metadata JSON passed to append
+  submittedAt?: number; // Set before the first append is sent, the receipt may never arrive
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+/**
+ * Durable queue of memory writes waiting to be pinned and appended. Rows
+ * survive restarts, so writes made while offline are delivered later. A
+ * flushing client leases the rows it works on, so clients sharing the file
+ * never deliver the same row at once.
+ */
+export class SQLiteOutbox {
+  private db: sqlite3.Database;
+  private ready: Promise<void>;
+  private leaseOwner = randomUUID();
+
+  constructor(dbPath: string) {
+    this.db = new sqlite3.Database(dbPath);
+    this.ready = this.init();
+    this.ready.catch(console.error);
+  }
+
+  private async init() {
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        id TEXT PRIMARY KEY,
+        stream_id TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        status TEXT NOT NULL,
+        cid TEXT,
+        merkle_root TEXT,
+        tx_hash TEXT,
+        submitted_at INTEGER,
+        is_mock INTEGER DEFAULT 0,
+        attempts INTEGER DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        lease_owner TEXT,
+        leased_until INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  private async run(sql: string, params: any[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  private async all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+  }
+
+  private toEntry(row: any): OutboxEntry {
+    return {
+      id: row.id,
+      streamId: row.stream_id,
+      payload: JSON.parse(row.payload),
+      metadata: row.metadata,
+      status: row.status as DeliveryStatus,
+      cid: row.cid ?? undefined,
+      merkleRoot: row.merkle_root ?? undefined,
+      txHash: row.tx_hash ?? undefined,
+      submittedAt: row.submitted_at ?? undefined,
+      isMock: !!row.is_mock,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Queue a write. The ID is its idempotency key: enqueueing it again is a no-op.
+   */
+  async enqueue(
+    id: string,
+    streamId: string,
+    payload: any,
+    metadata: string,
+  ): Promise<OutboxEntry> {
+    await this.ready;
+    const now = Date.now();
+    await this.run(
+      `INSERT OR IGNORE INTO outbox
+      (id, stream_id, payload, metadata, status, next_attempt_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'pending', ?, ?, ?)`,
+      [id, streamId, JSON.stringify(payload), metadata, now, now, now],
+    );
+    return (await this.get(id))!;
+  }
+
+  async get(id: string): Promise<OutboxEntry | null> {
+    await this.ready;
+    const rows = await this.all("SELECT * FROM outbox WHERE id = ?", [id]);
+    return rows.length > 0 ? this.toEntry(rows[0]) : null;
+  }
+
+  /**
+   * Lease the writes that still need work and whose backoff has elapsed,
+   * oldest first. Rows leased by another client are skipped until their
+   * lease runs out, e.g. because that client crashed.
+   */
+  async claimDue(
+    leaseMs: number,
+    now: number = Date.now(),
+  ): Promise<OutboxEntry[]> {
+    await this.ready;
+    await this.run(
+      `UPDATE outbox SET lease_owner = ?, leased_until = ?
+      WHERE status IN ('pending', 'pinned') AND next_attempt_at <= ?
+      AND (leased_until IS NULL OR leased_until <= ? OR lease_owner = ?)`,
+      [this.leaseOwner, now + leaseMs, now, now, this.leaseOwner],
+    );
+    const rows = await this.all(
+      `SELECT * FROM outbox
+      WHERE status IN ('pending', 'pinned') AND lease_owner = ?
+      AND leased_until > ?
+      ORDER BY created_at`,
+      [this.leaseOwner, now],
+    );
+    return rows.map((row) => this.toEntry(row));
+  }
+
+  async release(ids: string[]): Promise<void> {
+    await this.ready;
+    for (const id of ids) {
+      await this.run(
+        `UPDATE outbox SET lease_owner = NULL, leased_until = NULL
+        WHERE id = ? AND lease_owner = ?`,
+        [id, this.leaseOwner],
+      );
+    }
+  }
+
+  async markPinned(
+    id: string,
+    cid: string,
+    merkleRoot: string,
+    isMock: boolean,
+    payload: any,
+  ): Promise<void> {
+    await this.ready;
+    await this.run(
+      `UPDATE outbox SET status = 'pinned', cid = ?, merkle_root = ?,
+      is_mock = ?, payload = ?, updated_at = ? WHERE id = ?`,
+      [
+        cid,
+        merkleRoot,
+        isMock ? 1 : 0,
+        JSON.stringify(payload),
+        Date.now(),
+        id,
+      ],
+    );
+  }
+
+  /**
+   * Record that an append is about to be sent, then its tx hash once it is
+   */
+  async markSubmitted(ids: string[], txHash?: string): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+    for (const id of ids) {
+      await this.run(
+        `UPDATE outbox SET submitted_at = COALESCE(submitted_at, ?),
+        tx_hash = COALESCE(?, tx_hash), updated_at = ? WHERE id = ?`,
+        [now, txHash ?? null, now, id],
+      );
+    }
+  }
+
+  async markConfirmed(
+    id: string,
+    txHash: string | null,
+    isMock: boolean,
+  ): Promise<void> {
+    await this.ready;
+    await this.run(
+      `UPDATE outbox SET status = 'confirmed', tx_hash = ?,
+      is_mock = MAX(is_mock, ?), last_error = NULL, updated_at = ? WHERE id = ?`,
+      [txHash, isMock ? 1 : 0, Date.now(), id],
+    );
+  }
+
+  /**
+   * Record a failed attempt. Without `nextAttemptAt` the write is given up on.
+   */
+  async markAttemptFailed(
+    id: string,
+    error: string,
+    nextAttemptAt?: number,
+  ): Promise<void> {
+    await this.ready;
+    await this.run(
+      `UPDATE outbox SET attempts = attempts + 1, last_error = ?,
+      status = CASE WHEN ? THEN status ELSE 'failed' END,
+      next_attempt_at = COALESCE(?, next_attempt_at), updated_at = ?
+      WHERE id = ?`,
+      [
+        error,
+        nextAttemptAt !== undefined ? 1 : 0,
+        nextAttemptAt ?? null,
+        Date.now(),
+        id,
+      ],
+    );
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,159 @@
+import { BigNumberish, Signer } from "ethers";
+import {
+  MemoryAccessContract,
+  MemoryRegistryContract,
+  SignedAppend,
+  SignedRegister,
+  connectMemoryAccess,
+  connectMemoryRegistry,
+  recoverAppendSigner,
+  recoverRegisterSigner,
+} from "../oss/src/contracts";
+import { AccessDeniedError, ValidationError, toChainError } from "./errors";
+
+// Anything that can get a signed append on chain, in process or over a network
+export interface AppendRelay {
+  relay(signed: SignedAppend): Promise<string>;
+  register?(signed: SignedRegister): Promise<string>; // Relays that can register streams
+}
+
+export interface AppendRelayerConfig {
+  signer: Signer; // Funded account that pays for gas
+  registryAddress: string;
+  accessAddress: string;
+  registerStreamsFor?: string[]; // Owners whose streams the relayer registers, none by default
+}
+
+/**
+ * Submits append intents signed by agents that hold no gas. Intents are
+ * checked before paying for a transaction: expiry, nonce, signature and the
+ * author's WRITE access, which the registry enforces again on chain.
+ * Stream registrations are only relayed for owners in `registerStreamsFor`.
+ */
+export class AppendRelayer implements AppendRelay {
+  private config: AppendRelayerConfig;
+  private registry: MemoryRegistryContract;
+  private access: MemoryAccessContract;
+
+  constructor(config: AppendRelayerConfig) {
+    this.config = config;
+    this.registry = connectMemoryRegistry(
+      config.registryAddress,
+      config.signer,
+    );
+    this.access = connectMemoryAccess(config.accessAddress, config.signer);
+  }
+
+  async relay(signed: SignedAppend): Promise<string> {
+    const { intent } = signed;
+    if (Number(intent.deadline) * 1000 <= Date.now()) {
+      throw new ValidationError(`Append intent for ${intent.streamId} expired`);
+    }
+
+    const chainId = await this.config.signer.getChainId();
+    const author = recoverAppendSigner(
+      signed,
+      this.config.registryAddress,
+      chainId,
+    );
+    if (author.toLowerCase() !== intent.author.toLowerCase()) {
+      throw new AccessDeniedError(
+        `Append intent for ${intent.streamId} was not signed by its author`,
+      );
+    }
+
+    await this.checkNonce(intent.author, signed.nonce);
+    await this.checkWriteAccess(intent.streamId, intent.author);
+
+    try {
+      const tx = await this.registry.appendWithSig(intent, signed.signature);
+      await tx.wait();
+      console.log(`📨 Relayed append to ${intent.streamId}: ${tx.hash}`);
+      return tx.hash;
+    } catch (error) {
+      throw toChainError(`Failed to relay append to ${intent.streamId}`, error);
+    }
+  }
+
+  /**
+   * Register a stream for the owner who signed `signed`. Registration costs
+   * gas and creates state, so it's refused unless the owner is allowlisted.
+   */
+  async register(signed: SignedRegister): Promise<string> {
+    const { intent } = signed;
+    const allowed = (this.config.registerStreamsFor || []).some(
+      (owner) => owner.toLowerCase() === intent.owner.toLowerCase(),
+    );
+    if (!allowed) {
+      throw new AccessDeniedError(
+        `${intent.owner} may not register streams through this relayer`,
+      );
+    }
+    if (Number(intent.deadline) * 1000 <= Date.now()) {
+      throw new ValidationError(
+        `Register intent for ${intent.streamId} expired`,
+      );
+    }
+
+    const chainId = await this.config.signer.getChainId();
+    const owner = recoverRegisterSigner(
+      signed,
+      this.config.registryAddress,
+      chainId,
+    );
+    if (owner.toLowerCase() !== intent.owner.toLowerCase()) {
+      throw new AccessDeniedError(
+        `Register intent for ${intent.streamId} was not signed by its owner`,
+      );
+    }
+
+    await this.checkNonce(intent.owner, signed.nonce);
+    if (await this.registry.streamExists(intent.streamId)) {
+      throw new ValidationError(`Stream ${intent.streamId} already exists`);
+    }
+
+    try {
+      const tx = await this.registry.registerStreamWithSig(
+        intent,
+        signed.signature,
+      );
+      await tx.wait();
+      console.log(`📨 Relayed registration of ${intent.streamId}: ${tx.hash}`);
+      return tx.hash;
+    } catch (error) {
+      throw toChainError(`Failed to register ${intent.streamId}`, error);
+    }
+  }
+
+  private async checkNonce(
+    signer: string,
+    expected: BigNumberish,
+  ): Promise<void> {
+    const nonce = await this.registry.nonces(signer);
+    if (!nonce.eq(expected)) {
+      throw new ValidationError(
+        `Stale nonce ${expected} for ${signer}, expected ${nonce}`,
+      );
+    }
+  }
+
+  private async checkWriteAccess(
+    streamId: string,
+    author: string,
+  ): Promise<void> {
+    // Registering takes the owner's own signature, see register
+    const stream = await this.registry.streams(streamId);
+    if (!stream.exists) {
+      throw new ValidationError(`Stream ${streamId} does not exist`);
+    }
+
+    const allowed =
+      stream.owner.toLowerCase() === author.toLowerCase() ||
+      (await this.access.isAuthorized(streamId, author, "WRITE"));
+    if (!allowed) {
+      throw new AccessDeniedError(
+        `${author} is not authorized to write to ${streamId}`,
+      );
+    }
+  }
+}
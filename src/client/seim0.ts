@@ -1,4 +1,6 @@
 import axios from "axios";
+import { promises as fs } from "fs";
+import path from "path";
 import {
   Memory,
   MemoryHistory,
@@ -8,37 +10,210 @@ import {
   Message,
   Backend,
   SeiConfig,
+  SeiMemoryDocument,
   SeiMemoryResult,
   SeiQueryResult,
+  SeiExtractedFact,
+  SeiSyncResult,
+  SeiBatchResult,
+  SeiManifestProof,
   Network,
   LLMConfig,
   EmbedderConfig,
+  EncryptionConfig,
+  MemoryMode,
+  WriteBatchingConfig,
+  OutboxConfig,
+  SeiDelivery,
+  SeiStreamInfo,
+  CreateStreamOptions,
+  SeiGrant,
+  GrantOptions,
+  ListGrantsOptions,
 } from "./seim0.types";
-import { getNetworkConfig } from "./config";
+import type { Contract, utils } from "ethers";
+import { DEFAULT_CONFIGS, applyDeployment, getNetworkConfig } from "./config";
+import {
+  AccessDeniedError,
+  ConfigurationError,
+  EmbeddingError,
+  IndexQueryError,
+  IpfsFetchError,
+  IpfsUploadError,
+  MemoryNotFoundError,
+  Seim0Error,
+  ValidationError,
+  getRevertReason,
+  toChainError,
+} from "./errors";
+import {
+  EncryptedEnvelope,
+  decryptDocument,
+  deriveEncryptionKey,
+  deriveStreamKey,
+  encryptDocument,
+  getKeyId,
+  isEncryptedEnvelope,
+  parseEncryptionKey,
+} from "./encryption";
+import {
+  StreamKeyring,
+  addRecipient,
+  createKeyring,
+  openKeyring,
+  recoverKeyringSigner,
+  rotateKeyring,
+  signKeyring,
+} from "./keyring";
 import { Memory as OSS_Memory } from "../oss/src/memory";
 import { MemoryItem, SearchResult } from "../oss/src/types";
-
-class APIError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "APIError";
+import { PinningService } from "../oss/src/pinning/base";
+import { MemoryPinningService } from "../oss/src/pinning/memory";
+import { OutboxEntry, SQLiteOutbox } from "./outbox";
+import { StreamResolver, createStreamResolver } from "../oss/src/utils/stream";
+import {
+  AccessRole,
+  GrantScope,
+  MemoryAccessContract,
+  MemoryRegistryContract,
+  connectMemoryAccess,
+  connectMemoryRegistry,
+  decodeEventArgs,
+  encodeGrantScope,
+  findMissingFragments,
+  signAppend,
+  signRegister,
+} from "../oss/src/contracts";
+import { AppendRelay } from "./relayer";
+import { VaultClient } from "./vault";
+import {
+  EmbedderFactory,
+  PinningServiceFactory,
+} from "../oss/src/utils/factory";
+import { Embedder } from "../oss/src/embeddings/base";
+import { VectorStore } from "../oss/src/vector_stores/base";
+import { MemoryVectorStore } from "../oss/src/vector_stores/memory";
+import {
+  EMPTY_MERKLE_ROOT,
+  cidLeaf,
+  computeMerkleRoot,
+  getMerkleProof,
+  verifyProof,
+} from "../oss/src/utils/merkle";
+
+// Typed errors pass through untouched, anything else is wrapped with context
+function wrapError(message: string, error: unknown): Error {
+  if (error instanceof Seim0Error) {
+    return error;
   }
+  return new Seim0Error(
+    `${message}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    { cause: error }
+  );
+}
+
+interface StreamEntry {
+  cid: string;
+  position: number;
+  document: SeiMemoryDocument;
+  manifest?: SeiManifestProof; // Set on memories anchored through addBatch()
+}
+
+interface IndexSnapshot {
+  indexRoot: string;
+  leaves: string[]; // Leaves of the stream history prefix the root commits to
+}
+
+interface IndexedPrefix {
+  indexRoot: string;
+  length: number; // History prefix the root commits to, 0 if none matched
+  checked: number; // History length the root was checked against
+}
+
+type ResultProof = NonNullable<SeiQueryResult["proof"]>;
+
+interface LoadedKeyring {
+  keyring: StreamKeyring;
+  keys: Buffer[]; // Content keys this client can unwrap, current first
 }
 
+interface PendingAppend {
+  cid: string;
+  merkleRoot: string;
+  metadata: string;
+  resolve: (result: { txHash: string; isMock: boolean }) => void;
+  reject: (error: unknown) => void;
+}
+
+// MemoryRegistry.MAX_BATCH_SIZE
+const MAX_BATCH_SIZE = 50;
+
+// How long a relayer has to submit a signed intent
+const RELAY_DEADLINE_SECONDS = 600;
+
+// The only metadata encrypted clients record on chain
+const PUBLIC_METADATA_FIELDS = [
+  "type",
+  "timestamp",
+  "deleted",
+  "keyVersion",
+  "keyId",
+];
+
 export class MemoryClient {
+  readonly vault: VaultClient; // PaymentVault deposits, payments and tips
   private backend: Backend = "sei";
   private seiConfig: SeiConfig;
   private ossMemory?: OSS_Memory;
   private enableFactExtraction: boolean = true;
+  private documentCache: Map<string, SeiMemoryDocument> = new Map();
+  private encryption?: EncryptionConfig;
+  private encryptionKey?: Buffer;
+  private contentKeys: Map<string, Buffer> = new Map(); // keyId => content key
+  private keyrings: Map<string, LoadedKeyring> = new Map();
+  private keyringScans: Map<string, number> = new Map(); // History entries already searched for keyrings
+  private mode: MemoryMode;
+  private pinning: PinningService;
+  private pinningIsLocal: boolean; // Documents only live in this process
+  private localPinning: MemoryPinningService = new MemoryPinningService();
+  private embedder?: Embedder;
+  private searchCache?: VectorStore; // Embeddings of stream documents, keyed by CID
+  private searchCacheReady: boolean = false;
+  private indexedPrefixes: Map<string, IndexedPrefix> = new Map(); // streamId => prefix of its last index root
+  private writeBatching?: WriteBatchingConfig;
+  private writeQueue: Map<string, PendingAppend[]> = new Map(); // streamId => queued appends
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private outbox?: SQLiteOutbox;
+  private outboxConfig: OutboxConfig = {};
+  private outboxFlush?: Promise<void>; // Flush in progress, shared by concurrent callers
+  private relayer?: AppendRelay;
+  private knownStreams: Set<string> = new Set(); // Streams never go away, so only hits are cached
+  private writableStreams: Set<string> = new Set(); // Streams the signer was found able to append to
+  private deployedFragments: Map<string, Set<string>> = new Map(); // Contract address => functions and events found in its bytecode
+  private streamPolicy: string;
+  private resolveStream: StreamResolver; // Maps user/agent/app IDs to the on-chain stream ID
+  private hideIdentity: boolean; // Keep user/agent/app/run IDs out of on-chain metadata
 
   constructor(options: MemoryOptions = {}) {
     this.backend = "sei"; // Only Sei backend supported
     this.enableFactExtraction = options.enableFactExtraction !== false; // Default to true
+    this.encryption = options.encryption;
 
     // Handle simplified configuration
     if (options.network || (!options.sei && !options.customConfig)) {
       const network = options.network || "testnet";
       this.seiConfig = getNetworkConfig(network);
+      if (options.deployment) {
+        this.seiConfig = applyDeployment(this.seiConfig, options.deployment);
+      }
+      if (options.rpcUrl) {
+        this.seiConfig.rpcUrl = options.rpcUrl;
+      }
+      if (!this.seiConfig.registryAddress) {
+        throw new ConfigurationError(
+          `seim0 contracts are not deployed on ${network} yet, pass a deployment`
+        );
+      }
 
       // Automatically pull environment variables for simplified setup
       this.seiConfig.privateKey = options.privateKey || process.env.PRIVATE_KEY;
@@ -52,14 +227,14 @@ export class MemoryClient {
 
       // Validate required credentials
       if (!this.seiConfig.privateKey && !this.seiConfig.signer) {
-        throw new Error(
+        throw new ConfigurationError(
           "Either PRIVATE_KEY environment variable or signer option is required for blockchain transactions"
         );
       }
 
       if (!this.seiConfig.pinataApiKey || !this.seiConfig.pinataSecretKey) {
         console.warn(
-          "⚠️  PINATA_API_KEY and PINATA_SECRET_KEY not found in environment variables. IPFS uploads will use mock data for development."
+          "⚠️  PINATA_API_KEY and PINATA_SECRET_KEY not found in environment variables. IPFS uploads will be kept in-process for development."
         );
       }
     }
@@ -71,38 +246,135 @@ export class MemoryClient {
     else if (options.sei) {
       this.seiConfig = options.sei;
     } else {
-      throw new Error("Sei configuration is required for seim0");
+      throw new ConfigurationError("Sei configuration is required for seim0");
+    }
+
+    // Mainnet never falls back to mock data
+    const production =
+      options.network === "mainnet" ||
+      this.seiConfig.rpcUrl === DEFAULT_CONFIGS.mainnet.rpcUrl;
+    if (production && options.mode === "dev") {
+      throw new ConfigurationError("Dev mode is not allowed on mainnet");
+    }
+    this.mode = options.mode || (production ? "strict" : "dev");
+
+    this.pinning =
+      options.pinning ||
+      PinningServiceFactory.fromConfig({
+        gateway: this.seiConfig.ipfsGateway,
+        pinataApiKey: this.seiConfig.pinataApiKey,
+        pinataSecretKey: this.seiConfig.pinataSecretKey,
+      });
+    this.pinningIsLocal =
+      !options.pinning && this.pinning instanceof MemoryPinningService;
+    if (this.mode === "strict" && this.pinningIsLocal) {
+      throw new ConfigurationError(
+        "Strict mode needs Pinata credentials or a pinning service"
+      );
+    }
+
+    this.writeBatching = options.writeBatching;
+    this.streamPolicy = options.streamPolicy || "default";
+    this.relayer = options.relayer;
+    this.vault = new VaultClient({
+      vaultAddress: this.seiConfig.vaultAddress,
+      rpcUrl: this.seiConfig.rpcUrl,
+      startBlock: this.seiConfig.startBlock,
+      logBlockRange: this.seiConfig.logBlockRange,
+      signer: async () => {
+        await this._ensureSigner();
+        return this.seiConfig.signer;
+      },
+    });
+    this.resolveStream = createStreamResolver(options.streamNaming);
+    this.hideIdentity = !!(
+      options.streamNaming?.hashUserIds || options.streamNaming?.namespace
+    );
+    if (options.outbox) {
+      this._initializeOutbox(options.outbox);
     }
 
     // Initialize fact extraction if enabled and LLM/embedder configured
     if (this.enableFactExtraction && (options.llm || options.embedder)) {
       this._initializeFactExtraction(options);
     }
+
+    // Search over on-chain documents uses the same embedder
+    if (options.embedder || this.ossMemory) {
+      this._initializeSearchCache(options);
+    }
   }
 
-  private _initializeFactExtraction(options: MemoryOptions) {
-    try {
-      // Default LLM configuration
-      const defaultLLM: LLMConfig = {
+  private _getEmbedderConfig(options: MemoryOptions): EmbedderConfig {
+    // Default embedder configuration
+    return (
+      options.embedder || {
         provider: "openai",
         config: {
           apiKey: process.env.OPENAI_API_KEY || "",
-          model: "gpt-4-turbo-preview",
+          model: "text-embedding-3-small",
         },
-      };
+      }
+    );
+  }
+
+  private _getEmbeddingDimension(embedderConfig: EmbedderConfig): number {
+    return embedderConfig.provider === "google" ? 768 : 1536;
+  }
+
+  private _initializeOutbox(config: OutboxConfig): void {
+    this.outboxConfig = config;
+    this.outbox = new SQLiteOutbox(
+      config.path || path.join(process.cwd(), "seim0_outbox.db")
+    );
+
+    // Retry in the background without keeping the process alive; rows left
+    // behind are delivered by the next client that opens the outbox, once
+    // this client's lease on them runs out
+    const timer = setInterval(() => {
+      this.flushOutbox().catch((error) =>
+        console.error("Outbox flush failed:", error)
+      );
+    }, config.flushIntervalMs ?? 5000);
+    timer.unref?.();
+  }
+
+  private _initializeSearchCache(options: MemoryOptions) {
+    try {
+      const embedderConfig = this._getEmbedderConfig(options);
+      this.embedder = EmbedderFactory.create(
+        embedderConfig.provider,
+        embedderConfig.config
+      );
+      this.searchCache = new MemoryVectorStore({
+        collectionName: "sei_search_cache",
+        dimension: this._getEmbeddingDimension(embedderConfig),
+        dbPath:
+          options.searchCachePath ||
+          path.join(process.cwd(), "seim0_search_cache.db"),
+      });
+    } catch (error) {
+      console.error("Failed to initialize search cache:", error);
+      console.warn("⚠️  Continuing without ranked search over the chain.");
+      this.embedder = undefined;
+      this.searchCache = undefined;
+    }
+  }
 
-      // Default embedder configuration
-      const defaultEmbedder: EmbedderConfig = {
+  private _initializeFactExtraction(options: MemoryOptions) {
+    try {
+      // Default LLM configuration
+      const defaultLLM: LLMConfig = {
         provider: "openai",
         config: {
           apiKey: process.env.OPENAI_API_KEY || "",
-          model: "text-embedding-3-small",
+          model: "gpt-4-turbo-preview",
         },
       };
 
       // Use provided configurations or defaults
       const llmConfig = options.llm || defaultLLM;
-      const embedderConfig = options.embedder || defaultEmbedder;
+      const embedderConfig = this._getEmbedderConfig(options);
 
       // Initialize OSS Memory for fact extraction
       this.ossMemory = new OSS_Memory({
@@ -113,7 +385,7 @@ export class MemoryClient {
           provider: "memory",
           config: {
             collectionName: "sei_memories",
-            dimension: embedderConfig.provider === "google" ? 768 : 1536,
+            dimension: this._getEmbeddingDimension(embedderConfig),
           },
         },
         disableHistory: false,
@@ -153,30 +425,144 @@ export class MemoryClient {
         );
       } catch (error) {
         console.error("Failed to create signer from private key:", error);
-        throw new Error(
-          "Failed to initialize wallet. Please check your PRIVATE_KEY."
+        throw new ConfigurationError(
+          "Failed to initialize wallet. Please check your PRIVATE_KEY.",
+          { cause: error }
         );
       }
     }
   }
 
+  private async _getEncryptionKey(): Promise<Buffer> {
+    if (!this.encryptionKey) {
+      if (this.encryption?.key) {
+        this.encryptionKey = parseEncryptionKey(this.encryption.key);
+      } else {
+        await this._ensureSigner();
+        if (!this.seiConfig.signer) {
+          throw new ConfigurationError(
+            "Encryption needs either encryption.key or a signer to derive the key from"
+          );
+        }
+        this.encryptionKey = await deriveEncryptionKey(this.seiConfig.signer);
+      }
+    }
+    return this.encryptionKey;
+  }
+
   // Core memory operations for Sei blockchain
   async add(
     messages: Array<Message>,
     options: MemoryOptions = {}
   ): Promise<SeiMemoryResult> {
+    // With an outbox, return a pending receipt and deliver in the background
+    if (this.outbox) {
+      return this._enqueueSei(messages, options);
+    }
     return this._addSei(messages, options);
   }
 
+  /**
+   * Delivery state of a write queued by add() when the outbox is enabled
+   */
+  async getDelivery(deliveryId: string): Promise<SeiDelivery | null> {
+    const entry = await this._getOutbox().get(deliveryId);
+    return entry && this._toDelivery(entry);
+  }
+
+  /**
+   * Wait until a queued write is appended on chain. Throws if it was given up
+   * on, or if it is still undelivered after `timeoutMs`.
+   */
+  async waitForDelivery(
+    deliveryId: string,
+    timeoutMs: number = 60000
+  ): Promise<SeiMemoryResult> {
+    const outbox = this._getOutbox();
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      await this.flushOutbox();
+      const entry = await outbox.get(deliveryId);
+      if (!entry) {
+        throw new ValidationError(`Unknown delivery ${deliveryId}`);
+      }
+      if (entry.status === "confirmed") {
+        return {
+          txHash: entry.txHash || "",
+          cid: entry.cid!,
+          merkleRoot: entry.merkleRoot!,
+          streamId: entry.streamId,
+          isMock: entry.isMock,
+          status: entry.status,
+          deliveryId,
+        };
+      }
+      if (entry.status === "failed") {
+        throw new Seim0Error(
+          `Delivery ${deliveryId} failed after ${entry.attempts} attempts: ${entry.lastError}`,
+          { retryable: false }
+        );
+      }
+      if (Date.now() >= deadline) {
+        throw new Seim0Error(
+          `Delivery ${deliveryId} is still ${entry.status} after ${timeoutMs}ms`,
+          { retryable: true }
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+
+  /**
+   * Try to deliver every queued write whose retry delay has elapsed
+   */
+  async flushOutbox(): Promise<void> {
+    if (!this.outbox) return;
+    if (!this.outboxFlush) {
+      this.outboxFlush = this._flushOutbox().finally(() => {
+        this.outboxFlush = undefined;
+      });
+    }
+    return this.outboxFlush;
+  }
+
+  /**
+   * Send every queued append now instead of waiting for `writeBatching.maxDelayMs`
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    await Promise.all(
+      [...this.writeQueue.keys()].map((streamId) => this._flushStream(streamId))
+    );
+  }
+
+  /**
+   * Add many conversations with a single transaction: every document is
+   * pinned, and one manifest committing to their CIDs is appended.
+   */
+  async addBatch(
+    conversations: Array<Array<Message>>,
+    options: MemoryOptions = {}
+  ): Promise<SeiBatchResult> {
+    return this._addBatchSei(conversations, options);
+  }
+
   async get(memoryId: string, options: MemoryOptions = {}): Promise<Memory> {
+    await this._recordRead(this.resolveStream(options));
     return this._getSei(memoryId, options);
   }
 
   async getAll(options: MemoryOptions = {}): Promise<Memory[]> {
+    await this._recordRead(this.resolveStream(options));
     return this._getAllSei(options);
   }
 
   async search(query: string, options: SearchOptions = {}): Promise<Memory[]> {
+    await this._recordRead(this.resolveStream(options));
     return this._searchSei(query, options);
   }
 
@@ -196,82 +582,437 @@ export class MemoryClient {
     memoryId: string,
     options: MemoryOptions = {}
   ): Promise<MemoryHistory[]> {
+    await this._recordRead(this.resolveStream(options));
     return this._historySei(memoryId, options);
   }
 
-  // Sei blockchain implementations
-  private async _addSei(
-    messages: Array<Message>,
-    options: MemoryOptions
-  ): Promise<SeiMemoryResult> {
+  /**
+   * Rebuild the local fact index from a stream's on-chain documents. Progress
+   * is saved to a cursor file, so later calls only replay new entries.
+   */
+  async sync(options: MemoryOptions = {}): Promise<SeiSyncResult> {
+    return this._syncSei(options);
+  }
+
+  /**
+   * Authorize `address` to READ a stream and share its content key with them.
+   * `publicKey` is the grantee's uncompressed secp256k1 public key.
+   */
+  async grantRead(
+    streamId: string,
+    address: string,
+    publicKey: string
+  ): Promise<string> {
     try {
-      let extractedFacts: MemoryItem[] = [];
-      let processedContent: string;
+      await this.grant(streamId, address, "READ");
 
-      // 1. Perform fact extraction if enabled
-      if (this.enableFactExtraction && this.ossMemory) {
-        console.log("🧠 Extracting facts from conversation...");
+      const current = await this._loadKeyring(streamId, true);
+      if (current && current.keys.length === 0) {
+        throw new AccessDeniedError(
+          `This client cannot unwrap the keys of ${streamId}`
+        );
+      }
 
-        const factResult = await this.ossMemory.add(messages, {
-          userId: options.user_id || "anonymous",
-          agentId: options.agent_id,
-          runId: options.run_id,
-          metadata: options.metadata,
+      let keyring: StreamKeyring;
+      let keys: Buffer[];
+      if (current) {
+        keyring = addRecipient(
+          current.keyring,
+          current.keys[0],
+          address,
+          publicKey
+        );
+        keys = current.keys;
+      } else {
+        // First grant: share the existing stream key so older documents stay readable
+        const signingKey = await this._getSigningKey();
+        const { ethers } = await import("ethers");
+        const streamKey = deriveStreamKey(
+          await this._getEncryptionKey(),
+          streamId
+        );
+        keyring = createKeyring(streamKey, {
+          [ethers.utils.computeAddress(signingKey.publicKey)]:
+            signingKey.publicKey,
+          [address]: publicKey,
         });
+        keys = [streamKey];
+      }
+
+      const txHash = await this._appendKeyring(streamId, keyring, keys);
+      console.log(`🔑 Shared ${streamId} with ${address}: ${txHash}`);
+      return txHash;
+    } catch (error) {
+      console.error("Error granting Sei stream access:", error);
+      throw wrapError("Failed to grant stream access", error);
+    }
+  }
+
+  /**
+   * Revoke READ on chain and rotate the stream's content key, so documents
+   * written from now on are unreadable for `address`
+   */
+  async revokeRead(streamId: string, address: string): Promise<string> {
+    try {
+      const revokeTxHash = await this.revoke(streamId, address, "READ");
+
+      const current = await this._loadKeyring(streamId, true);
+      if (!current) {
+        return revokeTxHash; // Never shared, nothing to rotate
+      }
+      if (current.keys.length === 0) {
+        throw new AccessDeniedError(
+          `This client cannot unwrap the keys of ${streamId}`
+        );
+      }
+
+      const { keyring, contentKey } = rotateKeyring(
+        current.keyring,
+        current.keys,
+        address
+      );
+      const txHash = await this._appendKeyring(streamId, keyring, [
+        contentKey,
+        ...current.keys,
+      ]);
+      console.log(`🔑 Rotated keys of ${streamId} after revoking ${address}`);
+      return txHash;
+    } catch (error) {
+      console.error("Error revoking Sei stream access:", error);
+      throw wrapError("Failed to revoke stream access", error);
+    }
+  }
+
+  /**
+   * Authorize `address` for `capability` ("READ", "WRITE", "ADMIN" or
+   * "OWNER") on a stream. The signer needs ADMIN or OWNER on it. Grants with
+   * a `ttl`, `scope` or `maxReads` lapse on chain without a revoke. WRITE
+   * can't be scoped, since the registry checks it on the whole stream.
+   */
+  async grant(
+    streamId: string,
+    address: string,
+    capability: string,
+    options: GrantOptions = {}
+  ): Promise<string> {
+    const role = options.role ?? AccessRole.AGENT;
+    if (options.ttl !== undefined && options.ttl <= 0) {
+      throw new ValidationError(
+        "Grant ttl must be a positive number of seconds"
+      );
+    }
+    if (options.scope && capability === "WRITE") {
+      throw new ValidationError("WRITE grants can't be scoped");
+    }
+
+    try {
+      const access = await this._getAccessContract(true);
+      const limited =
+        options.ttl !== undefined || options.scope || options.maxReads;
+      if (limited) {
+        await this._requireDeployed(
+          access,
+          ["authorizeWithLimits"],
+          "Grants with a ttl, scope or maxReads"
+        );
+      }
+      const tx = await this._sendTransaction(
+        `grant ${capability} on ${streamId}`,
+        () =>
+          limited
+            ? access.authorizeWithLimits(
+                streamId,
+                address,
+                capability,
+                role,
+                options.ttl !== undefined
+                  ? Math.floor(Date.now() / 1000) + options.ttl
+                  : 0,
+                options.scope ? encodeGrantScope(options.scope) : "",
+                options.maxReads || 0
+              )
+            : access.authorize(streamId, address, capability, role)
+      );
+
+      console.log(`🔐 Granted ${capability} on ${streamId} to ${address}`);
+      return tx.hash;
+    } catch (error) {
+      console.error("Error granting Sei stream access:", error);
+      throw wrapError("Failed to grant stream access", error);
+    }
+  }
+
+  async revoke(
+    streamId: string,
+    address: string,
+    capability: string
+  ): Promise<string> {
+    try {
+      const access = await this._getAccessContract(true);
+      const tx = await this._sendTransaction(
+        `revoke ${capability} on ${streamId}`,
+        () => access.revoke(streamId, address, capability)
+      );
+
+      this.writableStreams.delete(streamId);
+      console.log(`🔐 Revoked ${capability} on ${streamId} from ${address}`);
+      return tx.hash;
+    } catch (error) {
+      console.error("Error revoking Sei stream access:", error);
+      throw wrapError("Failed to revoke stream access", error);
+    }
+  }
+
+  /**
+   * Whether MemoryAccess authorizes `address` for `capability` on a stream,
+   * or only within `scope` when given. Stream owners can append without a
+   * WRITE grant, this does not account for that.
+   */
+  async checkAccess(
+    streamId: string,
+    address: string,
+    capability: string = "READ",
+    scope?: GrantScope
+  ): Promise<boolean> {
+    try {
+      const access = await this._getAccessContract();
+      return scope
+        ? await access.isAuthorizedForScope(
+            streamId,
+            address,
+            capability,
+            encodeGrantScope(scope)
+          )
+        : await access.isAuthorized(streamId, address, capability);
+    } catch (error) {
+      console.error("Error checking Sei stream access:", error);
+      throw new IndexQueryError(`Failed to check access to ${streamId}`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Grants on a stream, found by replaying Authorized and Revoked events and
+   * read back from MemoryAccess for their current state
+   */
+  async listGrants(
+    streamId: string,
+    options: ListGrantsOptions = {}
+  ): Promise<SeiGrant[]> {
+    try {
+      const fromBlock = options.fromBlock ?? this.seiConfig.startBlock ?? 0;
+      const events = [
+        ...(await this._queryAccessEvents("Authorized", [streamId], fromBlock)),
+        ...(await this._queryAccessEvents("Revoked", [streamId], fromBlock)),
+      ];
+
+      const access = await this._getAccessContract();
+      const pairs = new Map<string, { address: string; capability: string }>();
+      for (const event of events) {
+        const { addr, capability } = decodeEventArgs(access, event);
+        pairs.set(`${addr}:${capability}`, { address: addr, capability });
+      }
 
-        extractedFacts = factResult.results;
-        processedContent = extractedFacts.map((fact) => fact.memory).join("\n");
+      // Older deployments return authorizations without their limits
+      await this._requireDeployed(
+        access,
+        ["authorizeWithLimits"],
+        "listGrants()"
+      );
+      const grants: SeiGrant[] = [];
+      for (const { address, capability } of pairs.values()) {
+        const authorization = await access.getAuthorization(
+          streamId,
+          address,
+          capability
+        );
+        const expiresAt = authorization.expiresAt.toNumber();
+        const maxReads = authorization.maxReads.toNumber();
+        const reads = authorization.reads.toNumber();
+        const active =
+          !authorization.revoked &&
+          (expiresAt === 0 || expiresAt * 1000 > Date.now()) &&
+          (maxReads === 0 || reads < maxReads);
+        if (!active && !options.includeInactive) {
+          continue;
+        }
 
-        console.log(`✅ Extracted ${extractedFacts.length} facts:`);
-        extractedFacts.forEach((fact, i) => {
-          console.log(`   ${i + 1}. ${fact.memory} (${fact.metadata?.event})`);
+        grants.push({
+          streamId,
+          address,
+          capability,
+          role: authorization.role,
+          active,
+          revoked: authorization.revoked,
+          grantedAt: new Date(authorization.grantedAt.toNumber() * 1000),
+          ...(authorization.revoked && {
+            revokedAt: new Date(authorization.revokedAt.toNumber() * 1000),
+          }),
+          ...(expiresAt > 0 && { expiresAt: new Date(expiresAt * 1000) }),
+          ...(authorization.scope && { scope: authorization.scope }),
+          ...(maxReads > 0 && { maxReads }),
+          reads,
         });
-      } else {
-        // Fallback to raw text extraction
-        processedContent = this._extractTextFromMessages(messages);
-        console.log("📝 Storing raw conversation (fact extraction disabled)");
-      }
-
-      // 2. Create memory document with extracted facts
-      const memoryId = `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const document = {
-        id: memoryId,
-        content: processedContent,
-        originalMessages: messages,
-        extractedFacts: extractedFacts.map((fact) => ({
-          id: fact.id,
-          memory: fact.memory,
-          event: fact.metadata?.event,
-          reasoning: fact.metadata?.reasoning,
-        })),
-        factExtractionEnabled: this.enableFactExtraction,
-        metadata: {
-          ...options.metadata,
-          user_id: options.user_id,
-          agent_id: options.agent_id,
-          app_id: options.app_id,
-          run_id: options.run_id,
-          environment: "production",
-          timestamp: Date.now(),
-          factCount: extractedFacts.length,
-        },
+      }
+      return grants;
+    } catch (error) {
+      console.error("Error listing Sei stream grants:", error);
+      throw wrapError("Failed to list grants", error);
+    }
+  }
+
+  /**
+   * Register a stream owned by the signer. `policy` defaults to the client's
+   * `streamPolicy`. The registry grants the owner OWNER in MemoryAccess in
+   * the same transaction, so it can `grant()` right away.
+   */
+  async createStream(
+    streamId: string,
+    options: CreateStreamOptions = {}
+  ): Promise<string> {
+    try {
+      const registryContract = await this._getRegistryContract(true);
+      const owner = await this.seiConfig.signer.getAddress();
+      const tx = await this._sendTransaction(
+        `register stream ${streamId}`,
+        () =>
+          registryContract.registerStream(
+            streamId,
+            owner,
+            options.policy || this.streamPolicy
+          )
+      );
+
+      this.knownStreams.add(streamId);
+      console.log(`✅ Stream registered: ${streamId} (${tx.hash})`);
+      return tx.hash;
+    } catch (error) {
+      console.error("Error creating Sei stream:", error);
+      throw wrapError("Failed to create stream", error);
+    }
+  }
+
+  /**
+   * Let `indexer` publish index roots for a stream, replacing the previous
+   * indexer. Only the stream owner can do this.
+   */
+  async authorizeIndexer(streamId: string, indexer: string): Promise<string> {
+    try {
+      const registryContract = await this._getRegistryContract(true);
+      const tx = await this._sendTransaction(
+        `authorize indexer on ${streamId}`,
+        () => registryContract.setAuthorizedIndexer(streamId, indexer)
+      );
+
+      console.log(`🔐 Authorized indexer ${indexer} on ${streamId}`);
+      return tx.hash;
+    } catch (error) {
+      console.error("Error authorizing Sei stream indexer:", error);
+      throw wrapError("Failed to authorize indexer", error);
+    }
+  }
+
+  /**
+   * Current registry state of a stream, or null if it was never registered
+   */
+  async getStreamInfo(streamId: string): Promise<SeiStreamInfo | null> {
+    try {
+      const registryContract = await this._getRegistryContract();
+      const stream = await registryContract.streams(streamId);
+      if (!stream.exists) {
+        return null;
+      }
+
+      this.knownStreams.add(streamId);
+      return {
+        streamId,
+        owner: stream.owner,
+        policy: stream.policy,
+        latestCid: stream.latestCID,
+        latestMerkleRoot: stream.latestMerkleRoot,
+        indexRoot: stream.indexRoot,
+        authorizedIndexer: stream.authorizedIndexer,
+        lastUpdated: new Date(stream.lastUpdated.toNumber() * 1000),
       };
+    } catch (error) {
+      console.error("Error getting Sei stream info:", error);
+      throw new IndexQueryError(`Failed to read stream ${streamId}`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Streams owned by `owner` (the signer by default), found by replaying
+   * StreamRegistered events
+   */
+  async listMyStreams(
+    options: { owner?: string; fromBlock?: number } = {}
+  ): Promise<SeiStreamInfo[]> {
+    try {
+      await this._ensureSigner();
+      const owner =
+        options.owner ||
+        (this.seiConfig.signer && (await this.seiConfig.signer.getAddress()));
+      if (!owner) {
+        throw new ConfigurationError(
+          "listMyStreams() needs an owner address or a signer"
+        );
+      }
+
+      // Older deployments log StreamRegistered without `stream`, under another topic
+      const registryContract = await this._getRegistryContract();
+      await this._requireDeployed(
+        registryContract,
+        ["StreamRegistered"],
+        "listMyStreams()"
+      );
+      const events = await this._queryRegistryEvents(
+        "StreamRegistered",
+        [null, owner],
+        options.fromBlock ?? this.seiConfig.startBlock ?? 0
+      );
+
+      // The indexed streamId is only a hash, `stream` holds the ID itself
+      const streamIds = new Set<string>(
+        events.map(
+          (event) => decodeEventArgs(registryContract, event).stream as string
+        )
+      );
 
-      // 3. Upload to IPFS
-      console.log("📡 Uploading to IPFS...");
-      const cid = await this._uploadToIPFS(document);
+      const streams: SeiStreamInfo[] = [];
+      for (const streamId of streamIds) {
+        const info = await this.getStreamInfo(streamId);
+        if (info) {
+          streams.push(info);
+        }
+      }
+      return streams;
+    } catch (error) {
+      console.error("Error listing Sei streams:", error);
+      throw wrapError("Failed to list streams", error);
+    }
+  }
 
-      // 4. Create merkle root (simplified)
-      const merkleRoot = `0x${this._simpleHash(cid).toString(16).padStart(64, "0")}`;
+  // Sei blockchain implementations
+  private async _addSei(
+    messages: Array<Message>,
+    options: MemoryOptions
+  ): Promise<SeiMemoryResult> {
+    try {
+      // 1. Extract facts and build the memory document
+      const { document, extractedFacts } = await this._createMemoryDocument(
+        messages,
+        options
+      );
+      const memoryId = document.id;
 
-      // 5. Append to Sei registry
-      console.log("⛓️  Storing on Sei blockchain...");
-      const streamId = options.user_id || "default_stream";
-      const txHash = await this._appendToSeiRegistry(
+      // 2. Upload to IPFS and append to Sei registry
+      const streamId = this.resolveStream(options);
+      const { cid, merkleRoot, txHash, isMock } = await this._anchorDocument(
         streamId,
-        cid,
-        merkleRoot,
-        JSON.stringify(document.metadata)
+        document
       );
 
       console.log("🎉 Memory successfully stored on blockchain!");
@@ -288,38 +1029,440 @@ export class MemoryClient {
         cid,
         merkleRoot,
         streamId,
+        isMock,
       };
     } catch (error) {
       console.error("Error adding Sei memory:", error);
-      throw new APIError(
-        `Failed to add Sei memory: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+      throw wrapError("Failed to add Sei memory", error);
     }
   }
 
-  private async _getSei(
-    memoryId: string,
+  private async _enqueueSei(
+    messages: Array<Message>,
     options: MemoryOptions
-  ): Promise<Memory> {
-    // Simplified implementation - in production, query blockchain by memory ID
-    throw new Error(
-      "Get by ID not yet implemented for Sei. Use search instead."
-    );
-  }
+  ): Promise<SeiMemoryResult> {
+    try {
+      const { document } = await this._createMemoryDocument(messages, options);
+      const streamId = this.resolveStream(options);
+
+      // Encrypting for the stream may need its keyring from chain, so it
+      // happens at flush time and add() works offline. Until then the row is
+      // encrypted with our own key.
+      await this._getOutbox().enqueue(
+        document.id,
+        streamId,
+        this.encryption
+          ? encryptDocument(document, await this._getEncryptionKey())
+          : document,
+        this._onChainMetadata(document.metadata)
+      );
+      console.log(`📥 Memory ${document.id} queued for delivery`);
 
-  private async _getAllSei(options: MemoryOptions): Promise<Memory[]> {
-    // Get all memories for user from blockchain
-    const streamId = options.user_id || "default_stream";
-    return this._searchSei("", { ...options, limit: 100 });
+      this.flushOutbox().catch((error) =>
+        console.error("Outbox flush failed:", error)
+      );
+      return {
+        txHash: "",
+        cid: "",
+        merkleRoot: "",
+        streamId,
+        isMock: false,
+        status: "pending",
+        deliveryId: document.id,
+      };
+    } catch (error) {
+      console.error("Error queueing Sei memory:", error);
+      throw wrapError("Failed to queue Sei memory", error);
+    }
   }
 
-  private async _searchSei(
-    query: string,
-    options: SearchOptions
-  ): Promise<Memory[]> {
+  private async _flushOutbox(): Promise<void> {
+    const outbox = this._getOutbox();
+    const due = await outbox.claimDue(this.outboxConfig.leaseMs ?? 120000);
     try {
-      const streamId = options.user_id || "default_stream";
-      const limit = options.limit || 10;
+      await this._deliverDue(due);
+    } finally {
+      await outbox.release(due.map((entry) => entry.id));
+    }
+  }
+
+  private async _deliverDue(due: OutboxEntry[]): Promise<void> {
+    const outbox = this._getOutbox();
+
+    // 1. Encrypt and pin what has not been pinned yet. Nothing is appended
+    // before the CID is recorded, so a retry may pin under a new CID.
+    for (const entry of due.filter((e) => e.status === "pending")) {
+      try {
+        await this._checkWriteAccess(entry.streamId);
+      } catch (error) {
+        await this._recordDeliveryFailure(
+          entry,
+          error instanceof Seim0Error
+            ? error
+            : new IndexQueryError(
+                `Failed to check access to ${entry.streamId}`,
+                {
+                  cause: error,
+                }
+              )
+        );
+        continue;
+      }
+
+      let payload: any;
+      try {
+        payload = await this._preparePayload(
+          await this._openQueuedPayload(entry.payload),
+          entry.streamId
+        );
+      } catch (error) {
+        await this._recordDeliveryFailure(
+          entry,
+          error instanceof Seim0Error
+            ? error
+            : new IndexQueryError(
+                `Failed to load the content key of ${entry.streamId}`,
+                { cause: error }
+              )
+        );
+        continue;
+      }
+
+      try {
+        const cid = await this.pinning.add(payload, {
+          name: `memory-${entry.id}`,
+        });
+        entry.cid = cid;
+        entry.merkleRoot = computeMerkleRoot([cidLeaf(cid)]);
+        entry.status = "pinned";
+        await outbox.markPinned(
+          entry.id,
+          cid,
+          entry.merkleRoot,
+          this.pinningIsLocal,
+          payload
+        );
+      } catch (error) {
+        await this._recordDeliveryFailure(
+          entry,
+          new IpfsUploadError(`Failed to upload ${entry.id}`, { cause: error })
+        );
+      }
+    }
+
+    // 2. Append the pinned writes, one transaction per stream
+    const byStream = new Map<string, OutboxEntry[]>();
+    for (const entry of due.filter((e) => e.status === "pinned")) {
+      byStream.set(entry.streamId, [
+        ...(byStream.get(entry.streamId) || []),
+        entry,
+      ]);
+    }
+    for (const [streamId, entries] of byStream) {
+      for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) {
+        await this._deliverAppends(
+          streamId,
+          entries.slice(i, i + MAX_BATCH_SIZE)
+        );
+      }
+    }
+  }
+
+  private async _deliverAppends(
+    streamId: string,
+    entries: OutboxEntry[]
+  ): Promise<void> {
+    const outbox = this._getOutbox();
+    try {
+      // An earlier send may have landed, or still be pending, even if the
+      // process died before it saw the receipt
+      if (entries.some((entry) => entry.submittedAt !== undefined)) {
+        entries = await this._reconcileSubmitted(streamId, entries);
+        if (entries.length === 0) return;
+      }
+
+      await this._ensureSigner();
+      let result: { txHash: string; isMock: boolean };
+      if (this.seiConfig.signer) {
+        const ids = entries.map((entry) => entry.id);
+        await outbox.markSubmitted(ids);
+
+        // Failures are retried from the outbox instead of mocked
+        result = await this._submitAppends(
+          streamId,
+          entries.map((entry) => ({
+            cid: entry.cid!,
+            merkleRoot: entry.merkleRoot!,
+            metadata: entry.metadata,
+          })),
+          true,
+          (txHash) => outbox.markSubmitted(ids, txHash)
+        );
+      } else if (this.mode === "strict") {
+        throw new ConfigurationError("A signer is required to append memories");
+      } else {
+        console.warn("No signer found, using mock transaction");
+        result = {
+          txHash: this._mockTxHash(streamId, entries[entries.length - 1].cid!),
+          isMock: true,
+        };
+      }
+
+      for (const entry of entries) {
+        await outbox.markConfirmed(entry.id, result.txHash, result.isMock);
+      }
+      console.log(`📤 Delivered ${entries.length} queued memories`);
+    } catch (error) {
+      const failure =
+        error instanceof Seim0Error
+          ? error
+          : toChainError(`Failed to append to ${streamId}`, error);
+      for (const entry of entries) {
+        await this._recordDeliveryFailure(entry, failure);
+      }
+    }
+  }
+
+  /**
+   * Confirm submitted writes that are in the stream's history and hold back
+   * those whose transaction is still pending. What's left was never appended
+   * and can be sent again.
+   */
+  private async _reconcileSubmitted(
+    streamId: string,
+    entries: OutboxEntry[]
+  ): Promise<OutboxEntry[]> {
+    const outbox = this._getOutbox();
+    const registryContract = await this._getRegistryContract();
+    const history = new Set(
+      (await registryContract.streamExists(streamId))
+        ? await registryContract.getStreamHistory(streamId)
+        : []
+    );
+
+    const unsent: OutboxEntry[] = [];
+    for (const entry of entries) {
+      if (history.has(entry.cid!)) {
+        await outbox.markConfirmed(entry.id, entry.txHash ?? null, false);
+      } else if (
+        entry.txHash &&
+        !(await registryContract.provider.getTransactionReceipt(
+          entry.txHash
+        )) &&
+        (await registryContract.provider.getTransaction(entry.txHash))
+      ) {
+        console.log(`⏳ Append of ${entry.id} is still pending`);
+      } else {
+        unsent.push(entry);
+      }
+    }
+    return unsent;
+  }
+
+  private async _recordDeliveryFailure(
+    entry: OutboxEntry,
+    error: Seim0Error
+  ): Promise<void> {
+    const attempts = entry.attempts + 1;
+    const maxAttempts = this.outboxConfig.maxAttempts ?? 10;
+
+    // Errors like a missing grant fail the same way every time
+    if (!error.retryable || attempts >= maxAttempts) {
+      console.error(`❌ Giving up on ${entry.id}:`, error.message);
+      await this._getOutbox().markAttemptFailed(entry.id, error.message);
+      return;
+    }
+
+    const delay =
+      (this.outboxConfig.retryDelayMs ?? 2000) * 2 ** (attempts - 1);
+    console.warn(
+      `⚠️ Delivery of ${entry.id} failed, retrying in ${delay}ms:`,
+      error.message
+    );
+    await this._getOutbox().markAttemptFailed(
+      entry.id,
+      error.message,
+      Date.now() + delay
+    );
+  }
+
+  private _getOutbox(): SQLiteOutbox {
+    if (!this.outbox) {
+      throw new ConfigurationError("The outbox is not enabled");
+    }
+    return this.outbox;
+  }
+
+  private _toDelivery({
+    payload,
+    metadata,
+    nextAttemptAt,
+    submittedAt,
+    createdAt,
+    ...delivery
+  }: OutboxEntry): SeiDelivery {
+    return delivery;
+  }
+
+  private async _addBatchSei(
+    conversations: Array<Array<Message>>,
+    options: MemoryOptions
+  ): Promise<SeiBatchResult> {
+    if (conversations.length === 0) {
+      throw new ValidationError("addBatch() needs at least one conversation");
+    }
+
+    try {
+      // 1. Extract facts and pin every memory document
+      const streamId = this.resolveStream(options);
+      await this._checkWriteAccess(streamId);
+      const items: Array<{ memoryId: string; cid: string }> = [];
+      let uploadsMocked = false;
+      for (const messages of conversations) {
+        const { document } = await this._createMemoryDocument(
+          messages,
+          options
+        );
+        const upload = await this._uploadToIPFS(document, streamId);
+        items.push({ memoryId: document.id, cid: upload.cid });
+        uploadsMocked = uploadsMocked || upload.isMock;
+      }
+
+      // 2. Anchor a manifest whose Merkle root commits to all of them
+      const manifest: SeiMemoryDocument = {
+        id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type: "manifest",
+        content: "",
+        items: items.map((item) => item.cid),
+        metadata: {
+          type: "manifest",
+          count: items.length,
+          user_id: options.user_id,
+          agent_id: options.agent_id,
+          app_id: options.app_id,
+          run_id: options.run_id,
+          timestamp: Date.now(),
+        },
+      };
+      const { cid, merkleRoot, txHash, isMock } = await this._anchorDocument(
+        streamId,
+        manifest
+      );
+
+      console.log(
+        `📦 Anchored ${items.length} memories in one batch: ${txHash}`
+      );
+
+      const leaves = manifest.items!.map(cidLeaf);
+      return {
+        txHash,
+        cid,
+        merkleRoot,
+        streamId,
+        isMock: uploadsMocked || isMock,
+        items: items.map((item, index) => ({
+          ...item,
+          proof: getMerkleProof(leaves, index),
+        })),
+      };
+    } catch (error) {
+      console.error("Error adding Sei memory batch:", error);
+      throw wrapError("Failed to add Sei memory batch", error);
+    }
+  }
+
+  private async _getSei(
+    memoryId: string,
+    options: MemoryOptions
+  ): Promise<Memory> {
+    try {
+      const streamId = this.resolveStream(options);
+      const entries = await this._loadStream(streamId);
+      const deletedCids = this._getDeletedCids(entries);
+      const supersededBy = this._getSupersededBy(entries);
+
+      // Match on CID first, then on memory ID (newest first)
+      let entry =
+        entries.find((e) => e.cid === memoryId) ||
+        [...entries]
+          .reverse()
+          .find(
+            (e) =>
+              this._isMemoryDocument(e.document) && e.document.id === memoryId
+          );
+
+      if (!entry || !this._isMemoryDocument(entry.document)) {
+        throw new MemoryNotFoundError(
+          `Memory ${memoryId} not found in stream ${streamId}`
+        );
+      }
+
+      // Older versions resolve to the newest one
+      while (supersededBy.has(entry.cid)) {
+        const newerCid = supersededBy.get(entry.cid);
+        entry = entries.find((e) => e.cid === newerCid)!;
+      }
+
+      const deleted = deletedCids.has(entry.cid);
+      if (deleted && !options.includeDeleted) {
+        throw new MemoryNotFoundError(`Memory ${memoryId} has been deleted`);
+      }
+
+      const memory = this._documentToMemory(entry.cid, entry.document, {
+        streamId,
+        position: entry.position,
+        manifest: entry.manifest?.cid,
+      });
+      if (deleted) {
+        memory.metadata.deleted = true;
+      }
+      return memory;
+    } catch (error) {
+      console.error("Error getting Sei memory:", error);
+      throw wrapError("Failed to get Sei memory", error);
+    }
+  }
+
+  private async _getAllSei(options: MemoryOptions): Promise<Memory[]> {
+    try {
+      // Get all memories for user from blockchain
+      const streamId = this.resolveStream(options);
+      const entries = await this._loadStream(streamId);
+      const deletedCids = this._getDeletedCids(entries);
+      const supersededBy = this._getSupersededBy(entries);
+
+      return entries
+        .filter((entry) => this._isMemoryDocument(entry.document))
+        .filter((entry) => !supersededBy.has(entry.cid))
+        .filter(
+          (entry) => options.includeDeleted || !deletedCids.has(entry.cid)
+        )
+        .reverse()
+        .slice(0, options.page_size || 100)
+        .map((entry) => {
+          const memory = this._documentToMemory(entry.cid, entry.document, {
+            streamId,
+            position: entry.position,
+            manifest: entry.manifest?.cid,
+          });
+          if (deletedCids.has(entry.cid)) {
+            memory.metadata.deleted = true;
+          }
+          return memory;
+        });
+    } catch (error) {
+      console.error("Error getting all Sei memories:", error);
+      throw wrapError("Failed to get Sei memories", error);
+    }
+  }
+
+  private async _searchSei(
+    query: string,
+    options: SearchOptions
+  ): Promise<Memory[]> {
+    try {
+      const streamId = this.resolveStream(options);
+      const limit = options.top_k || options.limit || 10;
 
       // Use enhanced semantic search if fact extraction is enabled
       if (this.enableFactExtraction && this.ossMemory && query.trim()) {
@@ -334,24 +1477,27 @@ export class MemoryClient {
           });
 
           // Convert OSS memory results to client format
-          const memories: Memory[] = semanticResults.results.map((result) => ({
-            id: result.id,
-            memory: result.memory,
-            hash: result.hash,
-            data: { memory: result.memory },
-            user_id: options.user_id,
-            created_at: result.createdAt
-              ? new Date(result.createdAt)
-              : new Date(),
-            updated_at: result.updatedAt
-              ? new Date(result.updatedAt)
-              : new Date(),
-            metadata: {
-              ...result.metadata,
-              score: result.score,
-              factExtracted: true,
-            },
-          }));
+          const memories: Memory[] = semanticResults.results
+            .filter((result) => this._meetsThreshold(result.score, options))
+            .map((result) => ({
+              id: result.id,
+              memory: result.memory,
+              hash: result.hash,
+              data: { memory: result.memory },
+              user_id: options.user_id,
+              created_at: result.createdAt
+                ? new Date(result.createdAt)
+                : new Date(),
+              updated_at: result.updatedAt
+                ? new Date(result.updatedAt)
+                : new Date(),
+              metadata: {
+                ...result.metadata,
+                score: result.score,
+                factExtracted: true,
+              },
+              isMock: false,
+            }));
 
           console.log(`✅ Found ${memories.length} semantic matches`);
           return memories;
@@ -363,50 +1509,69 @@ export class MemoryClient {
         }
       }
 
-      // Fallback to traditional blockchain search
+      // Fallback to search over the stream's on-chain documents
       console.log("🔍 Using blockchain-based search...");
 
-      // 1. Generate query embedding (simplified)
-      const queryEmbedding = await this._generateEmbedding(query);
+      // 1. Load the stream and keep the memories that are still live
+      let entries: StreamEntry[];
+      try {
+        entries = await this._loadStream(streamId);
+      } catch (error) {
+        throw new IndexQueryError(`Failed to load stream ${streamId}`, {
+          cause: error,
+        });
+      }
+      const deletedCids = this._getDeletedCids(entries);
+      const supersededBy = this._getSupersededBy(entries);
+      const candidates = entries.filter(
+        (entry) =>
+          this._isMemoryDocument(entry.document) &&
+          !supersededBy.has(entry.cid) &&
+          (options.includeDeleted || !deletedCids.has(entry.cid))
+      );
 
-      // 2. Search via indexer (simplified)
-      const searchResults = await this._searchSeiIndex(
-        queryEmbedding,
+      // 2. Rank all of them against the query: the cache may still hold
+      // superseded or deleted versions, and verification may drop results
+      const ranked = await this._rankEntries(
+        query,
+        candidates,
         streamId,
-        limit
+        entries.length,
+        options.threshold
       );
 
-      // 3. Verify results and hydrate from IPFS
+      // 3. Verify results against the on-chain index root, then take the best
+      const snapshot = await this._getIndexSnapshot(streamId);
       const memories: Memory[] = [];
-      for (const result of searchResults) {
-        const verified = await this._verifySeiResult(result);
-        if (verified) {
-          const content = await this._fetchFromIPFS(result.cid);
-          if (content) {
-            memories.push({
-              id: result.cid,
-              memory: content.content,
-              hash: result.cid,
-              metadata: {
-                ...content.metadata,
-                verified: true,
-                score: result.score,
-                factExtracted: content.factExtractionEnabled || false,
-              },
-              created_at: new Date(content.metadata.timestamp),
-              updated_at: new Date(content.metadata.timestamp),
-            });
-          }
-        }
+      for (const { entry, score } of ranked) {
+        if (memories.length >= limit) break;
+        const proof = this._verifySeiResult(entry, snapshot);
+        if (!proof) continue;
+
+        const deleted = deletedCids.has(entry.cid);
+        const memory = this._documentToMemory(entry.cid, entry.document, {
+          streamId,
+          position: entry.position,
+          manifest: entry.manifest?.cid,
+        });
+        memories.push({
+          ...memory,
+          score,
+          metadata: {
+            ...memory.metadata,
+            verified: proof.verified,
+            proof,
+            score,
+            ...(deleted && { deleted: true }),
+          },
+        });
       }
 
       console.log(`✅ Found ${memories.length} blockchain matches`);
       return memories;
     } catch (error) {
       console.error("Error searching Sei memories:", error);
-      throw new APIError(
-        `Failed to search Sei memories: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+      throw wrapError("Failed to search Sei memories", error);
     }
   }
 
@@ -416,281 +1581,1524 @@ export class MemoryClient {
     options: MemoryOptions
   ): Promise<Memory> {
     // For blockchain, create new memory with reference to old one
-    throw new Error(
-      "Update not yet implemented for Sei. Create new memory instead."
-    );
+    const previous = await this._getSei(memoryId, options);
+    const previousCid = previous.metadata.cid as string;
+    const streamId = previous.metadata.streamId as string;
+
+    try {
+      const { document } = await this._createMemoryDocument(
+        [{ role: "user", content: data.text }],
+        options,
+        previous.id
+      );
+      document.supersedes = previousCid;
+      document.metadata.supersedes = previousCid;
+
+      const { cid, txHash, isMock } = await this._anchorDocument(
+        streamId,
+        document
+      );
+
+      // Forget the old version's facts the new one didn't keep, as sync does
+      const kept = new Set(
+        (document.extractedFacts || [])
+          .filter((fact) => fact.event !== "DELETE")
+          .map((fact) => fact.id)
+      );
+      await this._forgetFacts(
+        ((previous.metadata.extractedFacts || []) as SeiExtractedFact[]).filter(
+          (fact) => !kept.has(fact.id)
+        )
+      );
+
+      console.log(
+        `✏️  Memory ${previous.id} updated: ${previousCid} -> ${cid}`
+      );
+      const memory = this._documentToMemory(cid, document, { streamId });
+      memory.metadata.txHash = txHash;
+      memory.isMock = isMock;
+      return memory;
+    } catch (error) {
+      console.error("Error updating Sei memory:", error);
+      throw wrapError("Failed to update Sei memory", error);
+    }
   }
 
   private async _deleteSei(
     memoryId: string,
     options: MemoryOptions
   ): Promise<string> {
-    // Blockchain records are immutable, mark as deleted in metadata
-    throw new Error(
-      "Delete not yet implemented for Sei. Memories are immutable on blockchain."
-    );
-  }
+    // Blockchain records are immutable, so append a tombstone pointing at the target
+    const target = await this._getSei(memoryId, options);
+    const targetCid = target.metadata.cid as string;
 
-  private async _historySei(
-    memoryId: string,
-    options: MemoryOptions
-  ): Promise<MemoryHistory[]> {
-    // Get memory history from blockchain events
-    throw new Error("History not yet implemented for Sei.");
-  }
+    try {
+      const tombstone: SeiMemoryDocument = {
+        id: `tomb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type: "tombstone",
+        content: "",
+        deletes: targetCid,
+        metadata: {
+          type: "tombstone",
+          deleted: targetCid,
+          memory_id: target.id,
+          user_id: options.user_id,
+          agent_id: options.agent_id,
+          app_id: options.app_id,
+          run_id: options.run_id,
+          timestamp: Date.now(),
+        },
+      };
 
-  // Helper methods for Sei backend
-  private _extractTextFromMessages(messages: Array<Message>): string {
-    return messages
-      .map((msg) =>
-        typeof msg.content === "string"
-          ? msg.content
-          : JSON.stringify(msg.content)
-      )
-      .join("\\n");
-  }
+      const { txHash } = await this._anchorDocument(
+        target.metadata.streamId,
+        tombstone
+      );
 
-  private _simpleHash(input: string): number {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash);
-  }
+      // Forget the extracted facts locally so semantic search stops returning them
+      await this._forgetFacts(target.metadata.extractedFacts || []);
 
-  private async _generateEmbedding(text: string): Promise<number[]> {
-    // Simplified embedding - in production, use actual embedding service
-    const hash = this._simpleHash(text);
-    const embedding: number[] = [];
-    for (let i = 0; i < 1536; i++) {
-      embedding.push(Math.sin(hash + i) * 0.1);
+      console.log(`🪦 Memory ${memoryId} tombstoned: ${txHash}`);
+      return txHash;
+    } catch (error) {
+      console.error("Error deleting Sei memory:", error);
+      throw wrapError("Failed to delete Sei memory", error);
     }
-    return embedding;
   }
 
-  private async _uploadToIPFS(document: any): Promise<string> {
-    // Real IPFS upload using Pinata from config
+  private async _syncSei(options: MemoryOptions): Promise<SeiSyncResult> {
     try {
-      const pinataApiKey = this.seiConfig.pinataApiKey;
-      const pinataSecretKey = this.seiConfig.pinataSecretKey;
+      if (!this.ossMemory) {
+        throw new ConfigurationError(
+          "sync() needs fact extraction: configure an llm and embedder"
+        );
+      }
 
-      if (!pinataApiKey || !pinataSecretKey) {
-        console.warn("PINATA credentials not found in config, using mock CID");
-        return `Qm${this._simpleHash(JSON.stringify(document)).toString(36).padEnd(44, "0")}`;
+      const streamId = this.resolveStream(options);
+      const cursorPath =
+        options.syncCursorPath || path.join(process.cwd(), "seim0_sync.json");
+      const cursors = await this._readSyncCursors(cursorPath);
+      const streamHistory = await this._getStreamHistory(streamId);
+
+      // A cursor past the end belongs to another registry, so start over
+      let position = cursors[streamId] ?? 0;
+      if (position > streamHistory.length) {
+        position = 0;
       }
 
-      const response = await fetch(
-        "https://api.pinata.cloud/pinning/pinJSONToIPFS",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            pinata_api_key: pinataApiKey,
-            pinata_secret_api_key: pinataSecretKey,
-          },
-          body: JSON.stringify({
-            pinataContent: document,
-            pinataMetadata: {
-              name: `memory-${document.id}`,
-            },
-          }),
+      const result: SeiSyncResult = {
+        streamId,
+        processed: 0,
+        imported: 0,
+        removed: 0,
+        position,
+      };
+
+      for (; position < streamHistory.length; position++) {
+        const cid = streamHistory[position];
+        const document: SeiMemoryDocument | null = await this._fetchFromIPFS(
+          cid,
+          streamId
+        );
+        if (!document || document.isMock) {
+          // Skipping would lose the entry for good, so stop and retry it next time
+          console.warn(`⚠️ Could not load ${cid}, sync stopped at ${position}`);
+          break;
         }
-      );
 
-      if (!response.ok) {
-        throw new Error(`IPFS upload failed: ${response.statusText}`);
+        // Batches are replayed item by item, and only once every item loaded
+        const entries = await this._expandEntry(
+          { cid, position, document },
+          streamId
+        );
+        if (entries.some((entry) => entry.document.isMock)) {
+          console.warn(
+            `⚠️ Could not load batch ${cid}, sync stopped at ${position}`
+          );
+          break;
+        }
+        for (const entry of entries) {
+          await this._replayDocument(entry, streamId, options, result);
+        }
+
+        result.processed++;
+        cursors[streamId] = position + 1;
+        await this._writeSyncCursors(cursorPath, cursors);
       }
 
-      const result = await response.json();
-      console.log(`✅ Real IPFS upload successful: ${result.IpfsHash}`);
-      return result.IpfsHash;
+      result.position = position;
+      console.log(
+        `🔄 Synced ${result.processed} entries of ${streamId}: ${result.imported} facts imported, ${result.removed} removed`
+      );
+      return result;
     } catch (error) {
-      console.error("IPFS upload failed, using mock:", error);
-      return `Qm${this._simpleHash(JSON.stringify(document)).toString(36).padEnd(44, "0")}`;
+      console.error("Error syncing Sei memories:", error);
+      throw wrapError("Failed to sync Sei memories", error);
     }
   }
 
-  private async _appendToSeiRegistry(
+  /**
+   * Apply one stream document to the local fact index
+   */
+  private async _replayDocument(
+    { cid, document }: StreamEntry,
     streamId: string,
-    cid: string,
-    merkleRoot: string,
-    metadata: string
-  ): Promise<string> {
-    // Real blockchain transaction
-    try {
-      // Ensure signer is created from private key if needed
-      await this._ensureSigner();
+    options: MemoryOptions,
+    result: SeiSyncResult
+  ): Promise<void> {
+    if (document.type === "tombstone" && document.deletes) {
+      const target = await this._fetchFromIPFS(document.deletes, streamId);
+      result.removed += await this._forgetFacts(target?.extractedFacts || []);
+    } else if (this._isMemoryDocument(document)) {
+      const facts = document.extractedFacts || [];
+      const kept = facts.filter((fact) => fact.event !== "DELETE");
+
+      // Facts the new version dropped are gone, the rest get re-imported below
+      if (document.supersedes) {
+        const previous: SeiMemoryDocument | null = await this._fetchFromIPFS(
+          document.supersedes,
+          streamId
+        );
+        const keep = new Set(kept.map((fact) => fact.id));
+        result.removed += await this._forgetFacts(
+          (previous?.extractedFacts || []).filter((fact) => !keep.has(fact.id))
+        );
+      }
+      result.removed += await this._forgetFacts(
+        facts.filter((fact) => fact.event === "DELETE")
+      );
 
-      if (!this.seiConfig.signer) {
-        console.warn("No signer found, using mock transaction");
-        return `0x${this._simpleHash(`${streamId}${cid}`).toString(16).padStart(64, "0")}`;
+      const metadata = document.metadata || {};
+      for (const fact of kept) {
+        await this.ossMemory!.importMemory(fact.id, fact.memory, {
+          userId: metadata.user_id || options.user_id || "anonymous",
+          agentId: metadata.agent_id || options.agent_id,
+          runId: metadata.run_id || options.run_id,
+          metadata: { cid, memory_id: document.id },
+        });
+        result.imported++;
       }
+    }
+  }
 
-      // Import ethers for contract interaction
-      const { ethers } = await import("ethers");
+  private async _readSyncCursors(
+    cursorPath: string
+  ): Promise<Record<string, number>> {
+    try {
+      return JSON.parse(await fs.readFile(cursorPath, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw new ConfigurationError(`Unreadable sync cursor ${cursorPath}`, {
+        cause: error,
+      });
+    }
+  }
 
-      // Memory Registry ABI (just the functions we need)
-      const registryABI = [
-        "function registerStream(string memory streamId, address owner, string memory policy) external",
-        "function append(string memory streamId, string memory cid, bytes32 merkleRoot, string memory metadata) external",
-        "function getHead(string memory streamId) external view returns (tuple(string cid, bytes32 merkleRoot, string metadata, uint256 timestamp))",
-        "function streamExists(string memory streamId) external view returns (bool)",
-      ];
+  private async _writeSyncCursors(
+    cursorPath: string,
+    cursors: Record<string, number>
+  ): Promise<void> {
+    // Write then rename, so a crash never leaves a half-written cursor
+    const tmpPath = `${cursorPath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(cursors, null, 2));
+    await fs.rename(tmpPath, cursorPath);
+  }
 
-      // Create contract instance
-      const registryContract = new ethers.Contract(
-        this.seiConfig.registryAddress,
-        registryABI,
-        this.seiConfig.signer
-      );
+  /**
+   * Delete facts from the local index, returning how many were there
+   */
+  private async _forgetFacts(facts: SeiExtractedFact[]): Promise<number> {
+    if (!this.ossMemory) {
+      return 0;
+    }
 
-      // First, register stream if it doesn't exist (ignore if already exists)
+    let removed = 0;
+    for (const fact of facts) {
       try {
-        console.log(`📝 Registering stream: ${streamId}`);
-        const signerAddress = await this.seiConfig.signer.getAddress();
-        const registerTx = await registryContract.registerStream(
-          streamId,
-          signerAddress,
-          "default"
-        );
-        await registerTx.wait();
-        console.log(`✅ Stream registered: ${registerTx.hash}`);
+        await this.ossMemory.delete(fact.id);
+        removed++;
       } catch (error) {
-        // Stream might already exist, that's OK
-        console.log(`ℹ️ Stream may already exist: ${streamId}`);
+        // Fact was already removed or updated away
       }
+    }
+    return removed;
+  }
 
-      // Append the memory to the stream
-      console.log(`📝 Appending to blockchain: stream=${streamId}, cid=${cid}`);
-      const appendTx = await registryContract.append(
+  private async _historySei(
+    memoryId: string,
+    options: MemoryOptions
+  ): Promise<MemoryHistory[]> {
+    try {
+      // Get memory history from blockchain events
+      const streamId = this.resolveStream(options);
+      const events = await this._queryMemoryAppendedEvents(
         streamId,
-        cid,
-        merkleRoot,
-        metadata
+        options.fromBlock ?? this.seiConfig.startBlock ?? 0
       );
 
+      // Batched memories share their manifest's event
+      const registryContract = await this._getRegistryContract();
+      const appended: Array<{
+        event: any;
+        timestamp: Date;
+        cid: string;
+        document: SeiMemoryDocument;
+      }> = [];
+      for (const event of events) {
+        const args = decodeEventArgs(registryContract, event);
+        const timestamp = new Date(args.timestamp.toNumber() * 1000);
+        const document = await this._fetchFromIPFS(args.cid, streamId);
+        if (document) {
+          const entries = await this._expandEntry(
+            { cid: args.cid, position: -1, document },
+            streamId
+          );
+          for (const { cid, document } of entries) {
+            appended.push({ event, timestamp, cid, document });
+          }
+        }
+      }
+
+      // Resolve a CID to the memory ID all of its versions share
+      const byCid = new Map(appended.map((entry) => [entry.cid, entry]));
+      const resolvedId = byCid.get(memoryId)?.document.id || memoryId;
+      if (!appended.some((entry) => entry.document.id === resolvedId)) {
+        throw new MemoryNotFoundError(
+          `Memory ${memoryId} not found in stream ${streamId}`
+        );
+      }
+
+      // Replay events in order, following supersedes and tombstone links
+      const versions = new Set<string>();
+      const history: MemoryHistory[] = [];
+      for (const { event, timestamp, cid, document } of appended) {
+        let eventType: MemoryHistory["event"];
+        let previousCid: string | undefined;
+
+        if (document.type === "tombstone") {
+          if (!document.deletes || !versions.has(document.deletes)) continue;
+          eventType = "DELETE";
+          previousCid = document.deletes;
+        } else if (document.supersedes && versions.has(document.supersedes)) {
+          eventType = "UPDATE";
+          previousCid = document.supersedes;
+        } else if (document.id === resolvedId && versions.size === 0) {
+          eventType = "ADD";
+        } else {
+          continue;
+        }
+
+        versions.add(cid);
+        history.push({
+          id: cid,
+          memory_id: resolvedId,
+          input: document.originalMessages || [],
+          old_memory: previousCid
+            ? (byCid.get(previousCid)?.document.content ?? null)
+            : null,
+          new_memory: eventType === "DELETE" ? null : document.content,
+          user_id: document.metadata?.user_id || streamId,
+          categories: document.metadata?.categories || [],
+          created_at: timestamp,
+          updated_at: timestamp,
+          event: eventType,
+          tx_hash: event.transactionHash,
+          block_number: event.blockNumber,
+          isMock: !!document.isMock,
+        });
+      }
+
+      return history;
+    } catch (error) {
+      console.error("Error getting Sei memory history:", error);
+      throw wrapError("Failed to get Sei memory history", error);
+    }
+  }
+
+  // Helper methods for Sei backend
+  private _extractTextFromMessages(messages: Array<Message>): string {
+    return messages
+      .map((msg) =>
+        typeof msg.content === "string"
+          ? msg.content
+          : JSON.stringify(msg.content)
+      )
+      .join("\\n");
+  }
+
+  private async _createMemoryDocument(
+    messages: Array<Message>,
+    options: MemoryOptions,
+    memoryId: string = `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  ): Promise<{ document: SeiMemoryDocument; extractedFacts: MemoryItem[] }> {
+    let extractedFacts: MemoryItem[] = [];
+    let processedContent: string;
+
+    // 1. Perform fact extraction if enabled
+    if (this.enableFactExtraction && this.ossMemory) {
+      console.log("🧠 Extracting facts from conversation...");
+
+      const factResult = await this.ossMemory.add(messages, {
+        userId: options.user_id || "anonymous",
+        agentId: options.agent_id,
+        runId: options.run_id,
+        metadata: options.metadata,
+      });
+
+      extractedFacts = factResult.results;
+      processedContent = extractedFacts.map((fact) => fact.memory).join("\n");
+
+      console.log(`✅ Extracted ${extractedFacts.length} facts:`);
+      extractedFacts.forEach((fact, i) => {
+        console.log(`   ${i + 1}. ${fact.memory} (${fact.metadata?.event})`);
+      });
+    } else {
+      // Fallback to raw text extraction
+      processedContent = this._extractTextFromMessages(messages);
+      console.log("📝 Storing raw conversation (fact extraction disabled)");
+    }
+
+    // 2. Create memory document with extracted facts
+    const document: SeiMemoryDocument = {
+      id: memoryId,
+      type: "memory",
+      content: processedContent,
+      originalMessages: messages,
+      extractedFacts: extractedFacts.map((fact) => ({
+        id: fact.id,
+        memory: fact.memory,
+        event: fact.metadata?.event,
+        reasoning: fact.metadata?.reasoning,
+      })),
+      factExtractionEnabled: this.enableFactExtraction,
+      metadata: {
+        ...options.metadata,
+        user_id: options.user_id,
+        agent_id: options.agent_id,
+        app_id: options.app_id,
+        run_id: options.run_id,
+        environment: "production",
+        timestamp: Date.now(),
+        factCount: extractedFacts.length,
+      },
+    };
+
+    return { document, extractedFacts };
+  }
+
+  private async _anchorDocument(
+    streamId: string,
+    document: SeiMemoryDocument
+  ): Promise<{
+    cid: string;
+    merkleRoot: string;
+    txHash: string;
+    isMock: boolean;
+  }> {
+    await this._checkWriteAccess(streamId);
+
+    // Upload to IPFS
+    console.log("📡 Uploading to IPFS...");
+    const upload = await this._uploadToIPFS(document, streamId);
+    const cid = upload.cid;
+
+    // Manifests commit to their items, anything else to its own CID
+    const merkleRoot = computeMerkleRoot(
+      document.items ? document.items.map(cidLeaf) : [cidLeaf(cid)]
+    );
+
+    // Append to Sei registry
+    console.log("⛓️  Storing on Sei blockchain...");
+    const append = await this._appendToSeiRegistry(
+      streamId,
+      cid,
+      merkleRoot,
+      this._onChainMetadata(document.metadata)
+    );
+
+    return {
+      cid,
+      merkleRoot,
+      txHash: append.txHash,
+      isMock: upload.isMock || append.isMock,
+    };
+  }
+
+  /**
+   * Metadata JSON passed to append, which anyone can read on chain. With
+   * encryption only non-identifying fields are kept; when stream names hash
+   * or namespace IDs, the raw IDs are left out of it too.
+   */
+  private _onChainMetadata(metadata: Record<string, any>): string {
+    if (this.encryption) {
+      return JSON.stringify(
+        Object.fromEntries(
+          Object.entries(metadata).filter(([field]) =>
+            PUBLIC_METADATA_FIELDS.includes(field)
+          )
+        )
+      );
+    }
+    if (!this.hideIdentity) {
+      return JSON.stringify(metadata);
+    }
+    const { user_id, agent_id, app_id, run_id, ...rest } = metadata;
+    return JSON.stringify(rest);
+  }
+
+  private async _loadStream(streamId: string): Promise<StreamEntry[]> {
+    const streamHistory = await this._getStreamHistory(streamId);
+    const entries: StreamEntry[] = [];
+    for (let position = 0; position < streamHistory.length; position++) {
+      const cid = streamHistory[position];
+      const document = await this._fetchFromIPFS(cid, streamId);
+      if (document) {
+        entries.push(
+          ...(await this._expandEntry({ cid, position, document }, streamId))
+        );
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Resolve a batch manifest to the memories it anchors, each with its proof
+   * against the manifest root. Other entries are returned as they are.
+   */
+  private async _expandEntry(
+    entry: StreamEntry,
+    streamId: string
+  ): Promise<StreamEntry[]> {
+    const items = entry.document.items;
+    if (entry.document.type !== "manifest" || !items) {
+      return [entry];
+    }
+
+    const leaves = items.map(cidLeaf);
+    const merkleRoot = computeMerkleRoot(leaves);
+    const expanded: StreamEntry[] = [];
+    for (let index = 0; index < items.length; index++) {
+      const document = await this._fetchFromIPFS(items[index], streamId);
+      if (document) {
+        expanded.push({
+          cid: items[index],
+          position: entry.position,
+          document,
+          manifest: {
+            cid: entry.cid,
+            merkleRoot,
+            proof: getMerkleProof(leaves, index),
+          },
+        });
+      }
+    }
+    return expanded;
+  }
+
+  private _isMemoryDocument(document: SeiMemoryDocument): boolean {
+    return !document.type || document.type === "memory";
+  }
+
+  private _getDeletedCids(entries: StreamEntry[]): Set<string> {
+    const deleted = new Set<string>();
+    for (const { document } of entries) {
+      if (document.type === "tombstone" && document.deletes) {
+        deleted.add(document.deletes);
+      }
+    }
+    return deleted;
+  }
+
+  private _getSupersededBy(entries: StreamEntry[]): Map<string, string> {
+    const supersededBy = new Map<string, string>();
+    for (const { cid, document } of entries) {
+      if (document.supersedes) {
+        supersededBy.set(document.supersedes, cid);
+      }
+    }
+    return supersededBy;
+  }
+
+  private _documentToMemory(
+    cid: string,
+    document: SeiMemoryDocument,
+    location: { streamId: string; position?: number; manifest?: string }
+  ): Memory {
+    const metadata = document.metadata || {};
+    const timestamp = new Date(metadata.timestamp || Date.now());
+
+    return {
+      id: document.id || cid,
+      memory: document.content,
+      data: { memory: document.content },
+      messages: document.originalMessages,
+      hash: cid,
+      user_id: metadata.user_id,
+      agent_id: metadata.agent_id,
+      app_id: metadata.app_id,
+      run_id: metadata.run_id,
+      created_at: timestamp,
+      updated_at: timestamp,
+      isMock: !!document.isMock,
+      metadata: {
+        ...metadata,
+        cid,
+        streamId: location.streamId,
+        ...(location.position !== undefined && {
+          position: location.position,
+        }),
+        ...(location.manifest && { manifest: location.manifest }),
+        extractedFacts: document.extractedFacts || [],
+        factExtracted: document.factExtractionEnabled || false,
+      },
+    };
+  }
+
+  private async _getStreamHistory(streamId: string): Promise<string[]> {
+    // Ensure signer is created from private key if needed
+    await this._ensureSigner();
+
+    const registryContract = await this._getRegistryContract();
+    return registryContract.getStreamHistory(streamId);
+  }
+
+  private async _queryMemoryAppendedEvents(
+    streamId: string,
+    fromBlock: number
+  ): Promise<any[]> {
+    // Older deployments log MemoryAppended without `stream`, under another topic
+    await this._requireDeployed(
+      await this._getRegistryContract(),
+      ["MemoryAppended"],
+      "history()"
+    );
+    return this._queryRegistryEvents("MemoryAppended", [streamId], fromBlock);
+  }
+
+  private async _queryRegistryEvents(
+    eventName: string,
+    topics: any[],
+    fromBlock: number
+  ): Promise<any[]> {
+    // Import ethers for contract interaction
+    const { ethers } = await import("ethers");
+
+    const provider = new ethers.providers.JsonRpcProvider(
+      this.seiConfig.rpcUrl
+    );
+    return this._queryEvents(
+      connectMemoryRegistry(this.seiConfig.registryAddress, provider),
+      eventName,
+      topics,
+      fromBlock
+    );
+  }
+
+  private async _queryAccessEvents(
+    eventName: string,
+    topics: any[],
+    fromBlock: number
+  ): Promise<any[]> {
+    const { ethers } = await import("ethers");
+
+    const provider = new ethers.providers.JsonRpcProvider(
+      this.seiConfig.rpcUrl
+    );
+    return this._queryEvents(
+      connectMemoryAccess(this.seiConfig.accessAddress, provider),
+      eventName,
+      topics,
+      fromBlock
+    );
+  }
+
+  private async _queryEvents(
+    contract: Contract,
+    eventName: string,
+    topics: any[],
+    fromBlock: number
+  ): Promise<any[]> {
+    const filter = contract.filters[eventName](...topics);
+
+    // RPC nodes cap eth_getLogs ranges, so walk the chain in fixed-size windows
+    const blockRange = this.seiConfig.logBlockRange || 2000;
+    const latestBlock = await contract.provider.getBlockNumber();
+    const events: any[] = [];
+    for (let start = fromBlock; start <= latestBlock; start += blockRange) {
+      const end = Math.min(start + blockRange - 1, latestBlock);
+      events.push(...(await contract.queryFilter(filter, start, end)));
+    }
+    return events;
+  }
+
+  private _simpleHash(input: string): number {
+    let hash = 0;
+    for (let i = 0; i < input.length; i++) {
+      const char = input.charCodeAt(i);
+      hash = (hash << 5) - hash + char;
+      hash = hash & hash;
+    }
+    return Math.abs(hash);
+  }
+
+  // Queued documents wait in the outbox encrypted with our own key
+  private async _openQueuedPayload(payload: any): Promise<any> {
+    return isEncryptedEnvelope(payload)
+      ? decryptDocument(payload, await this._getEncryptionKey())
+      : payload;
+  }
+
+  private async _preparePayload(document: any, streamId: string): Promise<any> {
+    // Encrypt before anything leaves the process, never fall back to plaintext.
+    // Keyrings stay readable so grantees can find their wrapped key.
+    return this.encryption && document.type !== "keyring"
+      ? encryptDocument(document, await this._getContentKey(streamId))
+      : document;
+  }
+
+  private async _uploadToIPFS(
+    document: any,
+    streamId: string
+  ): Promise<{ cid: string; isMock: boolean }> {
+    const payload = await this._preparePayload(document, streamId);
+
+    try {
+      const cid = await this.pinning.add(payload, {
+        name: `memory-${document.id}`,
+      });
+      console.log(`✅ IPFS upload successful: ${cid}`);
+      return { cid, isMock: this.pinningIsLocal };
+    } catch (error) {
+      if (this.mode === "strict") {
+        throw new IpfsUploadError(`Failed to upload ${document.id}`, {
+          cause: error,
+        });
+      }
+
+      // Keep the document in-process; its CID is still valid
+      console.error("IPFS upload failed, using local store:", error);
+      return { cid: await this.localPinning.add(payload), isMock: true };
+    }
+  }
+
+  private async _appendToSeiRegistry(
+    streamId: string,
+    cid: string,
+    merkleRoot: string,
+    metadata: string
+  ): Promise<{ txHash: string; isMock: boolean }> {
+    // Ensure signer is created from private key if needed
+    await this._ensureSigner();
+
+    if (!this.seiConfig.signer) {
+      if (this.mode === "strict") {
+        throw new ConfigurationError("A signer is required to append memories");
+      }
+      console.warn("No signer found, using mock transaction");
+      return { txHash: this._mockTxHash(streamId, cid), isMock: true };
+    }
+
+    if (this.writeBatching) {
+      return this._enqueueAppend(streamId, { cid, merkleRoot, metadata });
+    }
+    return this._submitAppends(streamId, [{ cid, merkleRoot, metadata }]);
+  }
+
+  private _enqueueAppend(
+    streamId: string,
+    append: { cid: string; merkleRoot: string; metadata: string }
+  ): Promise<{ txHash: string; isMock: boolean }> {
+    const maxSize = Math.min(
+      this.writeBatching?.maxSize ?? MAX_BATCH_SIZE,
+      MAX_BATCH_SIZE
+    );
+
+    return new Promise((resolve, reject) => {
+      const queue = this.writeQueue.get(streamId) || [];
+      queue.push({ ...append, resolve, reject });
+      this.writeQueue.set(streamId, queue);
+
+      if (queue.length >= maxSize) {
+        void this._flushStream(streamId);
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => {
+          this.flushTimer = undefined;
+          void this.flush();
+        }, this.writeBatching?.maxDelayMs ?? 1000);
+      }
+    });
+  }
+
+  private async _flushStream(streamId: string): Promise<void> {
+    const queue = this.writeQueue.get(streamId);
+    if (!queue || queue.length === 0) return;
+    this.writeQueue.delete(streamId);
+
+    // Every write in the batch settles with the same transaction
+    try {
+      const result = await this._submitAppends(streamId, queue);
+      queue.forEach((pending) => pending.resolve(result));
+    } catch (error) {
+      queue.forEach((pending) => pending.reject(error));
+    }
+  }
+
+  private async _submitAppends(
+    streamId: string,
+    appends: Array<{ cid: string; merkleRoot: string; metadata: string }>,
+    strict: boolean = this.mode === "strict",
+    onSubmitted?: (txHash: string) => Promise<void>
+  ): Promise<{ txHash: string; isMock: boolean }> {
+    const lastCid = appends[appends.length - 1].cid;
+
+    // Real blockchain transaction
+    try {
+      if (this.relayer) {
+        return await this._relayAppends(streamId, appends, this.relayer);
+      }
+
+      const registryContract = await this._getRegistryContract(true);
+
+      // First, register the stream if this is its first write
+      await this._ensureStream(streamId, registryContract);
+
+      // Append the memory to the stream, or every queued one at once
+      let appendTx;
+      if (appends.length === 1) {
+        const { cid, merkleRoot, metadata } = appends[0];
+        console.log(
+          `📝 Appending to blockchain: stream=${streamId}, cid=${cid}`
+        );
+        appendTx = await registryContract.append(
+          streamId,
+          cid,
+          merkleRoot,
+          metadata
+        );
+      } else {
+        await this._requireDeployed(
+          registryContract,
+          ["batchAppend"],
+          "Write batching"
+        );
+        console.log(
+          `📝 Appending ${appends.length} memories to blockchain: stream=${streamId}`
+        );
+        appendTx = await registryContract.batchAppend(
+          streamId,
+          appends.map((append) => append.cid),
+          appends.map((append) => append.merkleRoot),
+          appends.map((append) => append.metadata)
+        );
+      }
+
       console.log(`⏳ Transaction submitted: ${appendTx.hash}`);
+      await onSubmitted?.(appendTx.hash);
       const receipt = await appendTx.wait();
       console.log(
         `✅ Real blockchain transaction confirmed! Block: ${receipt.blockNumber}`
       );
 
-      return appendTx.hash;
+      return { txHash: appendTx.hash, isMock: false };
     } catch (error) {
+      // Reverts like a missing grant are never papered over, even in dev mode
+      const chainError = toChainError(
+        `Failed to append ${lastCid} to ${streamId}`,
+        error
+      );
+      if (strict || chainError.code !== "CHAIN_TX") {
+        throw chainError;
+      }
       console.error("Blockchain transaction failed, using mock:", error);
-      return `0x${this._simpleHash(`${streamId}${cid}`).toString(16).padStart(64, "0")}`;
+      return { txHash: this._mockTxHash(streamId, lastCid), isMock: true };
     }
   }
 
-  private async _searchSeiIndex(
-    embedding: number[],
+  /**
+   * Sign each append as EIP-712 typed data and hand it to the relayer, which
+   * pays for gas. Each intent uses up a nonce, so they go one at a time. A
+   * missing stream is registered through the relayer first, if it can.
+   */
+  private async _relayAppends(
     streamId: string,
-    limit: number
-  ): Promise<any[]> {
-    // Real blockchain search - get actual CIDs from the registry
-    try {
-      // Ensure signer is created from private key if needed
-      await this._ensureSigner();
+    appends: Array<{ cid: string; merkleRoot: string; metadata: string }>,
+    relayer: AppendRelay
+  ): Promise<{ txHash: string; isMock: boolean }> {
+    const signer = this.seiConfig.signer;
+    const author = await signer.getAddress();
+    const registryContract = await this._getRegistryContract();
+    await this._requireDeployed(
+      registryContract,
+      ["appendWithSig"],
+      "Relayed writes"
+    );
+    const deadline = Math.floor(Date.now() / 1000) + RELAY_DEADLINE_SECONDS;
+
+    // Intents are relayed in order, so the nonce is only read once
+    let nonce = await registryContract.nonces(author);
+    if (
+      !this.knownStreams.has(streamId) &&
+      !(await registryContract.streamExists(streamId))
+    ) {
+      if (!relayer.register) {
+        throw new ValidationError(
+          `Stream ${streamId} does not exist and the relayer can't register it`
+        );
+      }
+      await this._requireDeployed(
+        registryContract,
+        ["registerStreamWithSig"],
+        "Relayed stream registration"
+      );
+      const signed = await signRegister(
+        signer,
+        this.seiConfig.registryAddress,
+        { streamId, owner: author, policy: this.streamPolicy, deadline },
+        nonce
+      );
+      console.log(`📨 Relaying registration of stream: ${streamId}`);
+      await relayer.register(signed);
+      nonce = nonce.add(1);
+    }
+    this.knownStreams.add(streamId);
+
+    let txHash = "";
+    for (const { cid, merkleRoot, metadata } of appends) {
+      const signed = await signAppend(
+        signer,
+        this.seiConfig.registryAddress,
+        { streamId, cid, merkleRoot, metadata, author, deadline },
+        nonce
+      );
+      console.log(`📨 Relaying append: stream=${streamId}, cid=${cid}`);
+      txHash = await relayer.relay(signed);
+      nonce = nonce.add(1);
+    }
+    return { txHash, isMock: false };
+  }
 
-      if (!this.seiConfig.signer) {
-        console.warn("No signer found for blockchain search, using mock");
-        return Array.from({ length: Math.min(limit, 3) }, (_, i) => ({
-          cid: `Qm${i.toString().padEnd(44, "0")}`,
-          score: 0.8 - i * 0.1,
-        }));
+  /**
+   * Fail before anything is pinned if the registry would reject the append:
+   * it takes appends from the stream owner or a WRITE grantee, and streams
+   * that don't exist yet get registered to the signer.
+   */
+  private async _checkWriteAccess(streamId: string): Promise<void> {
+    if (this.writableStreams.has(streamId)) return;
+
+    await this._ensureSigner();
+    if (!this.seiConfig.signer) return; // Appends are mocked or rejected later
+
+    const signerAddress = await this.seiConfig.signer.getAddress();
+    let allowed: boolean;
+    try {
+      const registryContract = await this._getRegistryContract();
+      const stream = await registryContract.streams(streamId);
+      allowed =
+        !stream.exists ||
+        stream.owner.toLowerCase() === signerAddress.toLowerCase() ||
+        (await (
+          await this._getAccessContract()
+        ).isAuthorized(streamId, signerAddress, "WRITE"));
+    } catch (error) {
+      if (this.mode === "strict") {
+        throw new IndexQueryError(
+          `Failed to check write access to ${streamId}`,
+          { cause: error }
+        );
       }
+      console.warn(`⚠️ Could not check write access to ${streamId}`);
+      return;
+    }
 
-      // Import ethers for contract interaction
-      const { ethers } = await import("ethers");
+    if (!allowed) {
+      throw new AccessDeniedError(
+        `${signerAddress} is not authorized to write to ${streamId}`
+      );
+    }
+    this.writableStreams.add(streamId);
+  }
 
-      // Memory Registry ABI for reading stream history
-      const registryABI = [
-        "function getStreamHistory(string memory streamId) external view returns (string[] memory)",
-        "function streams(string memory streamId) external view returns (address owner, string policy, string latestCID, bytes32 latestMerkleRoot, uint256 lastUpdated, bytes32 indexRoot, address authorizedIndexer, bool exists)",
-      ];
+  /**
+   * Count a read against the signer's READ grant when the grant has a
+   * `maxReads` limit, and refuse the read once the limit is used up. Owners,
+   * grants without a limit and lapsed grants aren't counted. Clients writing
+   * through a relayer hold no gas, so their reads are checked but not counted.
+   */
+  private async _recordRead(streamId: string): Promise<void> {
+    await this._ensureSigner();
+    if (!this.seiConfig.signer) return; // Nothing to count reads against
+
+    const reader = await this.seiConfig.signer.getAddress();
+    let limited: boolean;
+    try {
+      // Deployments without recordRead have no read limits to count against
+      const access = await this._getAccessContract();
+      if (!(await this._isDeployed(access, ["recordRead"]))) return;
 
-      // Create contract instance
-      const registryContract = new ethers.Contract(
-        this.seiConfig.registryAddress,
-        registryABI,
-        this.seiConfig.signer
+      const authorization = await access.getAuthorization(
+        streamId,
+        reader,
+        "READ"
+      );
+      const expiresAt = authorization.expiresAt.toNumber();
+      limited =
+        !authorization.maxReads.isZero() &&
+        !authorization.revoked &&
+        (expiresAt === 0 || expiresAt * 1000 > Date.now());
+      if (limited && authorization.reads.gte(authorization.maxReads)) {
+        throw new AccessDeniedError(
+          `${reader} has used all ${authorization.maxReads} reads of ${streamId}`
+        );
+      }
+    } catch (error) {
+      if (error instanceof AccessDeniedError) throw error;
+      if (this.mode === "strict") {
+        throw new IndexQueryError(`Failed to check read limit on ${streamId}`, {
+          cause: error,
+        });
+      }
+      console.warn(`⚠️ Could not check read limit on ${streamId}`);
+      return;
+    }
+
+    if (limited && !this.relayer) {
+      const access = await this._getAccessContract(true);
+      await this._sendTransaction(`record a read of ${streamId}`, () =>
+        access.recordRead(streamId, reader, "READ")
       );
+    }
+  }
+
+  private async _ensureStream(
+    streamId: string,
+    registryContract: MemoryRegistryContract
+  ): Promise<void> {
+    if (this.knownStreams.has(streamId)) return;
 
-      // Get stream history (all CIDs for this stream)
+    if (!(await registryContract.streamExists(streamId))) {
       try {
-        const streamHistory = await registryContract.getStreamHistory(streamId);
-        console.log(
-          `📚 Found ${streamHistory.length} memories in stream ${streamId}`
+        console.log(`📝 Registering stream: ${streamId}`);
+        const registerTx = await registryContract.registerStream(
+          streamId,
+          await this.seiConfig.signer.getAddress(),
+          this.streamPolicy
         );
-
-        // Return the most recent CIDs with mock scores (in production, use real vector search)
-        return streamHistory
-          .slice(-limit)
-          .reverse()
-          .map((cid: string, i: number) => ({
-            cid,
-            score: 0.9 - i * 0.1, // Simple scoring, newest first
-          }));
+        await registerTx.wait();
+        console.log(`✅ Stream registered: ${registerTx.hash}`);
       } catch (error) {
-        console.log(
-          `⚠️ Could not fetch stream history for ${streamId}:`,
-          error
-        );
-
-        // Fallback: try to get just the latest CID
-        try {
-          const streamInfo = await registryContract.streams(streamId);
-          if (streamInfo.exists && streamInfo.latestCID) {
-            console.log(
-              `📄 Found latest CID for stream ${streamId}: ${streamInfo.latestCID}`
-            );
-            return [
-              {
-                cid: streamInfo.latestCID,
-                score: 0.9,
-              },
-            ];
-          }
-        } catch (fallbackError) {
-          console.log(`❌ Fallback also failed:`, fallbackError);
+        // Someone else registered it since we checked
+        if (getRevertReason(error) !== "Stream already exists") {
+          throw error;
         }
-
-        return [];
       }
+    }
+    this.knownStreams.add(streamId);
+  }
+
+  private _mockTxHash(streamId: string, cid: string): string {
+    return `0x${this._simpleHash(`${streamId}${cid}`).toString(16).padStart(64, "0")}`;
+  }
+
+  private _meetsThreshold(
+    score: number | undefined,
+    options: SearchOptions
+  ): boolean {
+    return options.threshold === undefined || (score ?? 0) >= options.threshold;
+  }
+
+  /**
+   * Rank stream entries by cosine similarity to the query, best first.
+   * Document embeddings are cached on disk by CID, so each is embedded once.
+   */
+  private async _rankEntries(
+    query: string,
+    entries: StreamEntry[],
+    streamId: string,
+    limit: number,
+    threshold?: number
+  ): Promise<Array<{ entry: StreamEntry; score?: number }>> {
+    if (!this.embedder || !this.searchCache) {
+      console.warn(
+        "⚠️  No embedder configured, returning the newest memories unranked"
+      );
+      return [...entries].reverse().map((entry) => ({ entry }));
+    }
+
+    await this._cacheEmbeddings(entries, streamId);
+
+    let queryEmbedding: number[];
+    try {
+      queryEmbedding = await this.embedder.embed(query);
     } catch (error) {
-      console.error("Error searching blockchain index:", error);
-      // Fallback to mock
-      return Array.from({ length: Math.min(limit, 3) }, (_, i) => ({
-        cid: `Qm${i.toString().padEnd(44, "0")}`,
-        score: 0.8 - i * 0.1,
-      }));
+      throw new EmbeddingError("Failed to embed search query", {
+        cause: error,
+      });
     }
+
+    const byCid = new Map(entries.map((entry) => [entry.cid, entry]));
+    const results = await this.searchCache.search(queryEmbedding, limit, {
+      streamId,
+    });
+    return results
+      .filter((result) => byCid.has(result.id))
+      .filter((result) => this._meetsThreshold(result.score, { threshold }))
+      .map((result) => ({ entry: byCid.get(result.id)!, score: result.score }));
   }
 
-  private async _verifySeiResult(result: any): Promise<boolean> {
-    // Mock verification - in production, verify merkle proofs
-    return true;
+  private async _cacheEmbeddings(
+    entries: StreamEntry[],
+    streamId: string
+  ): Promise<void> {
+    const searchCache = this.searchCache!;
+    if (!this.searchCacheReady) {
+      await searchCache.initialize();
+      this.searchCacheReady = true;
+    }
+
+    const missing: StreamEntry[] = [];
+    for (const entry of entries) {
+      // Placeholder documents would poison the cache for their CID
+      if (entry.document.isMock) continue;
+      const cached = await searchCache.get(entry.cid);
+      if (cached?.payload.streamId !== streamId) {
+        missing.push(entry);
+      }
+    }
+    if (missing.length === 0) return;
+
+    let embeddings: number[][];
+    try {
+      embeddings = await this.embedder!.embedBatch(
+        missing.map((entry) => entry.document.content)
+      );
+    } catch (error) {
+      throw new EmbeddingError("Failed to embed stream documents", {
+        cause: error,
+      });
+    }
+
+    await searchCache.insert(
+      embeddings,
+      missing.map((entry) => entry.cid),
+      missing.map((entry) => ({ cid: entry.cid, streamId }))
+    );
+    console.log(`🧮 Cached embeddings for ${missing.length} documents`);
   }
 
-  private async _fetchFromIPFS(cid: string): Promise<any> {
-    // Real IPFS fetch
+  private async _getIndexSnapshot(streamId: string): Promise<IndexSnapshot> {
     try {
-      const response = await fetch(`${this.seiConfig.ipfsGateway}${cid}`);
-      if (!response.ok) {
-        throw new Error(`IPFS fetch failed: ${response.statusText}`);
+      const registryContract = await this._getRegistryContract();
+      const indexRoot: string = await registryContract.getIndexRoot(streamId);
+      if (indexRoot === EMPTY_MERKLE_ROOT) {
+        return { indexRoot, leaves: [] };
+      }
+
+      // The indexer may lag behind the stream, so find the prefix its root covers
+      const leaves = (await this._getStreamHistory(streamId)).map(cidLeaf);
+      const length = this._findIndexedPrefix(streamId, indexRoot, leaves);
+      if (length > 0) {
+        return { indexRoot, leaves: leaves.slice(0, length) };
       }
 
-      const content = await response.json();
-      console.log(`✅ Real IPFS fetch successful: ${cid}`);
+      console.warn(
+        `⚠️ Index root for ${streamId} does not match the stream history`
+      );
+      return { indexRoot, leaves: [] };
+    } catch (error) {
+      console.warn(`⚠️ Could not load index root for ${streamId}:`, error);
+      return { indexRoot: EMPTY_MERKLE_ROOT, leaves: [] };
+    }
+  }
+
+  /**
+   * Length of the history prefix `indexRoot` commits to, or 0 if none does.
+   * History is append-only, so the answer is cached per root and a root that
+   * matched nothing is only checked against prefixes that appeared since.
+   */
+  private _findIndexedPrefix(
+    streamId: string,
+    indexRoot: string,
+    leaves: string[]
+  ): number {
+    const cached = this.indexedPrefixes.get(streamId);
+    if (cached?.indexRoot === indexRoot && cached.length > 0) {
+      return cached.length;
+    }
+
+    const checked = cached?.indexRoot === indexRoot ? cached.checked : 0;
+    let length = 0;
+    for (let candidate = leaves.length; candidate > checked; candidate--) {
+      if (computeMerkleRoot(leaves.slice(0, candidate)) === indexRoot) {
+        length = candidate;
+        break;
+      }
+    }
+
+    this.indexedPrefixes.set(streamId, {
+      indexRoot,
+      length,
+      checked: leaves.length,
+    });
+    return length;
+  }
+
+  private _verifySeiResult(
+    result: any,
+    snapshot: IndexSnapshot
+  ): ResultProof | null {
+    // Batched memories are proven against their manifest, and the manifest against the index
+    const manifest: SeiManifestProof | undefined = result.manifest;
+    if (manifest) {
+      const proof = this._verifySeiResult({ cid: manifest.cid }, snapshot);
+      if (!proof) return null;
+      return {
+        ...proof,
+        manifest,
+        verified:
+          proof.verified &&
+          verifyProof(cidLeaf(result.cid), manifest.proof, manifest.merkleRoot),
+      };
+    }
+
+    const leaf = cidLeaf(result.cid);
+
+    // Proofs handed to us by an indexer must check out, otherwise drop the result
+    if (Array.isArray(result.proof)) {
+      if (!verifyProof(leaf, result.proof, snapshot.indexRoot)) {
+        console.warn(`⚠️ Rejecting ${result.cid}: invalid Merkle proof`);
+        return null;
+      }
+      return {
+        snapshotRoot: snapshot.indexRoot,
+        merkleProof: result.proof,
+        verified: true,
+      };
+    }
+
+    // Otherwise prove inclusion from the history prefix the index root covers
+    const index = snapshot.leaves.indexOf(leaf);
+    const merkleProof =
+      index === -1 ? [] : getMerkleProof(snapshot.leaves, index);
+    return {
+      snapshotRoot: snapshot.indexRoot,
+      merkleProof,
+      verified:
+        index !== -1 && verifyProof(leaf, merkleProof, snapshot.indexRoot),
+    };
+  }
+
+  private async _fetchFromIPFS(cid: string, streamId?: string): Promise<any> {
+    // Content is addressed by CID, so a fetched document never changes
+    const cached = this.documentCache.get(cid);
+    if (cached) {
+      return cached;
+    }
+
+    // Fetch through the pinning service
+    try {
+      let content = await this._fetchRawFromIPFS(cid);
+      if (isEncryptedEnvelope(content)) {
+        content = await this._decryptEnvelope(content, streamId);
+      }
+      console.log(`✅ IPFS fetch successful: ${cid}`);
+      this.documentCache.set(cid, content);
       return content;
     } catch (error) {
+      if (this.mode === "strict") {
+        throw error instanceof Seim0Error
+          ? error
+          : new IpfsFetchError(`Failed to load ${cid}`, { cause: error });
+      }
       console.error(`IPFS fetch failed for ${cid}, using mock:`, error);
       return {
         content: `Mock content for ${cid}`,
         metadata: { timestamp: Date.now() },
+        isMock: true,
       };
     }
   }
+
+  private async _fetchRawFromIPFS(cid: string): Promise<any> {
+    if (this.localPinning.has(cid)) {
+      return this.localPinning.get(cid);
+    }
+    return this.pinning.get(cid);
+  }
+
+  private async _decryptEnvelope(
+    envelope: EncryptedEnvelope,
+    streamId?: string
+  ): Promise<any> {
+    // Own keys first: the master key (older documents) and the stream key
+    if (!this.contentKeys.has(envelope.keyId) && this.encryption) {
+      const masterKey = await this._getEncryptionKey();
+      this._registerContentKeys(
+        streamId
+          ? [masterKey, deriveStreamKey(masterKey, streamId)]
+          : [masterKey]
+      );
+    }
+
+    // Then keys shared with us through the stream's keyring, which may have
+    // been rotated since it was loaded
+    if (!this.contentKeys.has(envelope.keyId) && streamId) {
+      await this._loadKeyring(streamId, true);
+    }
+
+    const key = this.contentKeys.get(envelope.keyId);
+    if (!key) {
+      throw new AccessDeniedError(
+        `No key available for document encrypted with ${envelope.keyId}`
+      );
+    }
+    return decryptDocument(envelope, key);
+  }
+
+  private _registerContentKeys(keys: Buffer[]): void {
+    for (const key of keys) {
+      this.contentKeys.set(getKeyId(key), key);
+    }
+  }
+
+  /**
+   * Key new documents in a stream are encrypted with: the keyring's current
+   * key once the stream is shared, otherwise the stream key derived from ours
+   */
+  private async _getContentKey(streamId: string): Promise<Buffer> {
+    // Never encrypt with a key that was rotated out
+    const loaded = await this._loadKeyring(streamId, true);
+    if (loaded && loaded.keys.length > 0) {
+      return loaded.keys[0];
+    }
+    return deriveStreamKey(await this._getEncryptionKey(), streamId);
+  }
+
+  private async _getSigningKey(): Promise<utils.SigningKey> {
+    await this._ensureSigner();
+    const privateKey =
+      this.seiConfig.privateKey || this.seiConfig.signer?.privateKey;
+    if (!privateKey) {
+      throw new ConfigurationError(
+        "Shared streams need a local private key (PRIVATE_KEY or a Wallet signer)"
+      );
+    }
+
+    const { ethers } = await import("ethers");
+    return new ethers.utils.SigningKey(
+      privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`
+    );
+  }
+
+  /**
+   * Find the newest keyring in a stream and unwrap the keys it shares with us.
+   * Reads raw documents, since encrypted ones can't be keyrings. A found
+   * keyring is cached; `refresh` looks for a newer one among the documents
+   * appended since the last search.
+   */
+  private async _loadKeyring(
+    streamId: string,
+    refresh: boolean = false
+  ): Promise<LoadedKeyring | null> {
+    const cached = this.keyrings.get(streamId);
+    if (cached && !refresh) {
+      return cached;
+    }
+
+    let loaded: LoadedKeyring | null = cached || null;
+    let complete = true;
+    const streamHistory = await this._getStreamHistory(streamId);
+    const scanned = this.keyringScans.get(streamId) || 0;
+    for (const cid of streamHistory.slice(scanned).reverse()) {
+      let document: any;
+      try {
+        document =
+          this.documentCache.get(cid) || (await this._fetchRawFromIPFS(cid));
+      } catch (error) {
+        complete = false; // Could be a newer keyring, search again next time
+        continue;
+      }
+
+      if (document?.type === "keyring" && document.keyring) {
+        const keyring: StreamKeyring = document.keyring;
+        let trusted: boolean;
+        try {
+          trusted = await this._isKeyringTrusted(streamId, keyring);
+        } catch (error) {
+          complete = false;
+          continue;
+        }
+        if (!trusted) {
+          console.warn(
+            `⚠️ Ignoring unauthorized keyring ${cid} in ${streamId}`
+          );
+          continue;
+        }
+
+        let keys: Buffer[] = [];
+        try {
+          keys = openKeyring(keyring, await this._getSigningKey());
+        } catch (error) {
+          console.warn(`🔒 No access to keys of stream ${streamId}`);
+        }
+        loaded = { keyring, keys };
+        break;
+      }
+    }
+
+    if (complete) {
+      this.keyringScans.set(streamId, streamHistory.length);
+    }
+    if (loaded) {
+      this._registerContentKeys(loaded.keys);
+      this.keyrings.set(streamId, loaded);
+    }
+    return loaded;
+  }
+
+  /**
+   * Any WRITE grantee can append a document of type "keyring", so only trust
+   * keyrings signed by the stream owner or an ADMIN
+   */
+  private async _isKeyringTrusted(
+    streamId: string,
+    keyring: StreamKeyring
+  ): Promise<boolean> {
+    const signer = recoverKeyringSigner(keyring);
+    if (!signer) return false;
+
+    const stream = await (await this._getRegistryContract()).streams(streamId);
+    if (stream.exists && stream.owner.toLowerCase() === signer.toLowerCase()) {
+      return true;
+    }
+    return (await this._getAccessContract()).isAuthorized(
+      streamId,
+      signer,
+      "ADMIN"
+    );
+  }
+
+  private async _appendKeyring(
+    streamId: string,
+    unsigned: StreamKeyring,
+    keys: Buffer[]
+  ): Promise<string> {
+    await this._ensureSigner();
+    if (!this.seiConfig.signer) {
+      throw new ConfigurationError("Sharing stream keys needs a signer");
+    }
+    const keyring = await signKeyring(unsigned, this.seiConfig.signer);
+
+    const document: SeiMemoryDocument = {
+      id: `keys_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: "keyring",
+      content: "",
+      keyring,
+      metadata: {
+        type: "keyring",
+        keyVersion: keyring.keyVersion,
+        keyId: keyring.keyId,
+        timestamp: Date.now(),
+      },
+    };
+
+    const { txHash } = await this._anchorDocument(streamId, document);
+    this._registerContentKeys(keys);
+    this.keyrings.set(streamId, { keyring, keys });
+    return txHash;
+  }
+
+  private async _sendTransaction(
+    description: string,
+    send: () => Promise<any>
+  ): Promise<any> {
+    try {
+      const tx = await send();
+      await tx.wait();
+      return tx;
+    } catch (error) {
+      throw toChainError(`Failed to ${description}`, error);
+    }
+  }
+
+  /**
+   * Registry bound to the signer, or to a read-only provider when `write` is
+   * false and there is no signer
+   */
+  private async _getRegistryContract(
+    write: boolean = false
+  ): Promise<MemoryRegistryContract> {
+    await this._ensureSigner();
+    if (write && !this.seiConfig.signer) {
+      throw new ConfigurationError("A signer is required to write to streams");
+    }
+
+    // Reads don't need a signer, fall back to a plain provider
+    const { ethers } = await import("ethers");
+    return connectMemoryRegistry(
+      this.seiConfig.registryAddress,
+      this.seiConfig.signer ||
+        new ethers.providers.JsonRpcProvider(this.seiConfig.rpcUrl)
+    );
+  }
+
+  private async _getAccessContract(
+    write: boolean = false
+  ): Promise<MemoryAccessContract> {
+    await this._ensureSigner();
+    if (write && !this.seiConfig.signer) {
+      throw new ConfigurationError(
+        "A signer is required to change stream access"
+      );
+    }
+
+    const { ethers } = await import("ethers");
+    return connectMemoryAccess(
+      this.seiConfig.accessAddress,
+      this.seiConfig.signer ||
+        new ethers.providers.JsonRpcProvider(this.seiConfig.rpcUrl)
+    );
+  }
+
+  /**
+   * Whether the deployed contract has every function and event in `names`.
+   * Contracts don't change once deployed, so only hits are cached.
+   */
+  private async _isDeployed(
+    contract: Contract,
+    names: string[]
+  ): Promise<boolean> {
+    const found = this.deployedFragments.get(contract.address) || new Set();
+    const unchecked = names.filter((name) => !found.has(name));
+    if (unchecked.length === 0) return true;
+
+    const { ethers } = await import("ethers");
+    const missing = await findMissingFragments(
+      contract,
+      unchecked,
+      new ethers.providers.JsonRpcProvider(this.seiConfig.rpcUrl)
+    );
+    unchecked
+      .filter((name) => !missing.includes(name))
+      .forEach((name) => found.add(name));
+    this.deployedFragments.set(contract.address, found);
+    return missing.length === 0;
+  }
+
+  /**
+   * Fail with a pointer to redeploying when the configured contracts predate
+   * `feature`, as older testnet deployments do
+   */
+  private async _requireDeployed(
+    contract: Contract,
+    names: string[],
+    feature: string
+  ): Promise<void> {
+    if (await this._isDeployed(contract, names)) return;
+    throw new ConfigurationError(
+      `${feature} needs ${names.join(", ")}, which the contract at ${contract.address} predates. ` +
+        "Deploy the current contracts with contracts/scripts/deploy.js and pass the deployment-info.json it writes as `deployment`"
+    );
+  }
 }
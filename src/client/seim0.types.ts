@@ -1,5 +1,13 @@
+import type { StreamKeyring } from "./keyring";
+import type { PinningService } from "../oss/src/pinning/base";
+import type { StreamNamingConfig } from "../oss/src/utils/stream";
+import type { DeploymentInfo } from "../oss/src/contracts/deployment";
+import type { AccessRole, GrantScope } from "../oss/src/contracts";
+import type { AppendRelay } from "./relayer";
+
 export type Backend = "sei";
 export type Network = "testnet" | "mainnet";
+export type MemoryMode = "strict" | "dev"; // Whether failures throw or fall back to mocks
 
 export interface LLMConfig {
   provider: string;
@@ -30,6 +38,25 @@ export interface SeiConfig {
   signer?: any; // ethers.js signer
   pinataApiKey?: string; // PINATA API key for IPFS
   pinataSecretKey?: string; // PINATA secret key for IPFS
+  startBlock?: number; // Block the registry was deployed at, used for event replay
+  logBlockRange?: number; // Max blocks per eth_getLogs request
+}
+
+export interface EncryptionConfig {
+  key?: string; // 32-byte hex or base64 key; derived from the signer when omitted
+}
+
+export interface WriteBatchingConfig {
+  maxSize?: number; // Appends per transaction, capped at the registry's MAX_BATCH_SIZE (50)
+  maxDelayMs?: number; // How long a queued append may wait for company, 1000 by default
+}
+
+export interface OutboxConfig {
+  path?: string; // SQLite file, seim0_outbox.db in the working directory by default
+  maxAttempts?: number; // Attempts before a write is marked failed, 10 by default
+  retryDelayMs?: number; // First retry delay, doubled on every attempt; 2000 by default
+  flushIntervalMs?: number; // How often queued writes are retried, 5000 by default
+  leaseMs?: number; // How long a flush holds its rows before another client may take them, 120000 by default
 }
 
 // Simplified configuration for developers
@@ -51,9 +78,13 @@ export interface MemoryOptions {
   page_size?: number;
   timestamp?: number;
   backend?: Backend;
+  includeDeleted?: boolean; // Include tombstoned memories in on-chain reads
+  fromBlock?: number; // First block to replay events from in history()
 
   // New simplified configuration
   network?: Network;
+  deployment?: string | DeploymentInfo; // Path to deploy.js's deployment-info.json, or its contents
+  rpcUrl?: string; // Overrides the network's RPC endpoint
   privateKey?: string;
   apiKey?: string;
   signer?: any;
@@ -63,6 +94,18 @@ export interface MemoryOptions {
   embedder?: EmbedderConfig;
   enableFactExtraction?: boolean; // Enable/disable fact extraction
 
+  // Client-side AES-256-GCM encryption of documents before IPFS upload
+  encryption?: EncryptionConfig;
+  searchCachePath?: string; // SQLite file for cached document embeddings
+  syncCursorPath?: string; // JSON file recording how far sync() has replayed each stream
+  mode?: MemoryMode; // Defaults to "strict" on mainnet, "dev" elsewhere
+  pinning?: PinningService; // IPFS backend; picked from the Pinata credentials when omitted
+  writeBatching?: WriteBatchingConfig; // Queue appends and send them with batchAppend
+  outbox?: OutboxConfig; // Persist add() writes locally and deliver them in the background
+  streamNaming?: StreamNamingConfig; // How user/agent/app IDs map to stream IDs
+  streamPolicy?: string; // Policy streams are registered with on their first write, "default" if omitted
+  relayer?: AppendRelay; // Sign appends and let the relayer pay for gas
+
   // Legacy advanced configuration
   sei?: SeiConfig;
   customConfig?: SeiConfig;
@@ -98,6 +141,10 @@ export interface MemoryHistory {
   categories: Array<string>;
   created_at: Date;
   updated_at: Date;
+  event?: "ADD" | "UPDATE" | "DELETE";
+  tx_hash?: string;
+  block_number?: number;
+  isMock?: boolean;
 }
 
 export interface SearchOptions extends MemoryOptions {
@@ -129,6 +176,7 @@ export interface Memory {
   agent_id?: string | null;
   app_id?: string | null;
   run_id?: string | null;
+  isMock?: boolean; // True when built from dev-mode placeholder data
 }
 
 export interface MemoryUpdateBody {
@@ -136,11 +184,117 @@ export interface MemoryUpdateBody {
   text: string;
 }
 
+export type SeiDocumentType = "memory" | "tombstone" | "keyring" | "manifest";
+
+export interface SeiExtractedFact {
+  id: string;
+  memory: string;
+  event?: string;
+  reasoning?: string;
+}
+
+// Document pinned to IPFS for every entry appended to a stream
+export interface SeiMemoryDocument {
+  id: string;
+  type?: SeiDocumentType; // Missing on documents written before tombstones
+  content: string;
+  originalMessages?: Array<Messages>;
+  extractedFacts?: Array<SeiExtractedFact>;
+  factExtractionEnabled?: boolean;
+  deletes?: string; // CID of the memory a tombstone deletes
+  keyring?: StreamKeyring; // Wrapped content keys, on keyring documents
+  supersedes?: string; // CID of the previous version of an updated memory
+  items?: string[]; // CIDs of the memories a batch manifest anchors
+  metadata: Record<string, any>;
+  isMock?: boolean; // Set on placeholder documents returned in dev mode
+}
+
 export interface SeiMemoryResult {
   txHash: string;
   cid: string;
   merkleRoot: string;
   streamId: string;
+  isMock: boolean; // True when the CID or tx hash is a dev-mode placeholder
+  status?: DeliveryStatus; // Set on receipts returned when the outbox is enabled
+  deliveryId?: string; // Pass to getDelivery() or waitForDelivery()
+}
+
+export interface CreateStreamOptions {
+  policy?: string;
+}
+
+export interface SeiStreamInfo {
+  streamId: string;
+  owner: string;
+  policy: string;
+  latestCid: string;
+  latestMerkleRoot: string;
+  indexRoot: string;
+  authorizedIndexer: string;
+  lastUpdated: Date;
+}
+
+// Current state of one address/capability pair in MemoryAccess
+export interface SeiGrant {
+  streamId: string;
+  address: string;
+  capability: string; // "READ", "WRITE", "ADMIN" or "OWNER"
+  role: AccessRole;
+  active: boolean; // False once revoked, expired or out of reads
+  revoked: boolean;
+  grantedAt: Date;
+  revokedAt?: Date;
+  expiresAt?: Date;
+  scope?: string; // Encoded scope, e.g. "agent:<id>" or "namespace:<name>"
+  maxReads?: number;
+  reads: number;
+}
+
+export interface GrantOptions {
+  role?: AccessRole; // AGENT by default
+  ttl?: number; // Seconds until the grant expires
+  scope?: GrantScope; // Limit the grant to one agent or metadata namespace
+  maxReads?: number; // Reads allowed before the grant lapses
+}
+
+export interface ListGrantsOptions {
+  fromBlock?: number; // Defaults to the deployment's start block
+  includeInactive?: boolean; // Also return revoked, expired and used-up grants
+}
+
+export type DeliveryStatus = "pending" | "pinned" | "confirmed" | "failed";
+
+// Delivery state of a write queued in the outbox
+export interface SeiDelivery {
+  id: string; // Idempotency key, the memory document's ID
+  streamId: string;
+  status: DeliveryStatus;
+  cid?: string;
+  merkleRoot?: string;
+  txHash?: string; // Unset when the append landed in an attempt whose receipt was lost
+  isMock: boolean;
+  attempts: number;
+  lastError?: string;
+  updatedAt: number;
+}
+
+// Proof that a batched memory's CID is one of its manifest's leaves
+export interface SeiManifestProof {
+  cid: string; // CID of the manifest appended on chain
+  merkleRoot: string;
+  proof: string[];
+}
+
+export interface SeiBatchResult extends SeiMemoryResult {
+  items: Array<{ memoryId: string; cid: string; proof: string[] }>;
+}
+
+export interface SeiSyncResult {
+  streamId: string;
+  processed: number; // Stream entries replayed by this call
+  imported: number; // Facts written to the local index
+  removed: number; // Facts dropped by tombstones, updates or DELETE events
+  position: number; // Next stream position to replay
 }
 
 export interface SeiQueryResult {
@@ -149,5 +303,6 @@ export interface SeiQueryResult {
     snapshotRoot: string;
     merkleProof: string[];
     verified: boolean;
+    manifest?: SeiManifestProof; // For memories anchored through a batch
   };
 }
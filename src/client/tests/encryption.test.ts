@@ -0,0 +1,80 @@
+import { randomBytes } from "crypto";
+import { ethers } from "ethers";
+import {
+  decryptDocument,
+  deriveEncryptionKey,
+  deriveStreamKey,
+  encryptDocument,
+  getKeyId,
+  isEncryptedEnvelope,
+  parseEncryptionKey,
+} from "../encryption";
+
+describe("encryption", () => {
+  const document = { content: "likes tea", metadata: { user_id: "alice" } };
+
+  it("parses hex and base64 keys", () => {
+    const key = randomBytes(32);
+    expect(parseEncryptionKey(key.toString("hex"))).toEqual(key);
+    expect(parseEncryptionKey(`0x${key.toString("hex")}`)).toEqual(key);
+    expect(parseEncryptionKey(key.toString("base64"))).toEqual(key);
+    expect(parseEncryptionKey(new Uint8Array(key))).toEqual(key);
+  });
+
+  it("rejects keys that aren't 32 bytes", () => {
+    expect(() => parseEncryptionKey(randomBytes(16).toString("hex"))).toThrow(
+      expect.objectContaining({ name: "ConfigurationError" }),
+    );
+  });
+
+  it("round-trips documents without leaking them", () => {
+    const key = randomBytes(32);
+    const envelope = encryptDocument(document, key);
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(isEncryptedEnvelope(document)).toBe(false);
+    expect(envelope.keyId).toBe(getKeyId(key));
+    expect(JSON.stringify(envelope)).not.toContain("alice");
+    expect(decryptDocument(envelope, key)).toEqual(document);
+
+    // A fresh IV every time
+    expect(encryptDocument(document, key).ciphertext).not.toBe(
+      envelope.ciphertext,
+    );
+  });
+
+  it("refuses the wrong key and tampered ciphertext", () => {
+    const key = randomBytes(32);
+    const envelope = encryptDocument(document, key);
+    expect(() => decryptDocument(envelope, randomBytes(32))).toThrow(
+      "different key",
+    );
+
+    const ciphertext = Buffer.from(envelope.ciphertext, "base64");
+    ciphertext[0] ^= 1;
+    expect(() =>
+      decryptDocument(
+        { ...envelope, ciphertext: ciphertext.toString("base64") },
+        key,
+      ),
+    ).toThrow();
+  });
+
+  it("derives the same key from the same signer", async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const key = await deriveEncryptionKey(wallet);
+    expect(key).toHaveLength(32);
+    expect(await deriveEncryptionKey(wallet)).toEqual(key);
+    expect(await deriveEncryptionKey(ethers.Wallet.createRandom())).not.toEqual(
+      key,
+    );
+  });
+
+  it("derives a separate key per stream", () => {
+    const masterKey = randomBytes(32);
+    const alice = deriveStreamKey(masterKey, "alice");
+    expect(deriveStreamKey(masterKey, "alice")).toEqual(alice);
+    expect(deriveStreamKey(masterKey, "bob")).not.toEqual(alice);
+    expect(alice).not.toEqual(masterKey);
+  });
+});
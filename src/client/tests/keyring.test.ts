@@ -0,0 +1,140 @@
+import { randomBytes } from "crypto";
+import { ethers } from "ethers";
+import {
+  createKeyring,
+  openKeyring,
+  recoverKeyringSigner,
+  rotateKeyring,
+  signKeyring,
+} from "../keyring";
+import { MemoryClient } from "../seim0";
+
+function recipientsOf(...wallets: ethers.Wallet[]): Record<string, string> {
+  return Object.fromEntries(
+    wallets.map((wallet) => [wallet.address, wallet.publicKey]),
+  );
+}
+
+describe("keyring", () => {
+  const owner = ethers.Wallet.createRandom();
+  const bob = ethers.Wallet.createRandom();
+  const carol = ethers.Wallet.createRandom();
+
+  it("shares the content key with every recipient", () => {
+    const contentKey = randomBytes(32);
+    const keyring = createKeyring(contentKey, recipientsOf(owner, bob));
+
+    expect(openKeyring(keyring, owner._signingKey())[0]).toEqual(contentKey);
+    expect(openKeyring(keyring, bob._signingKey())[0]).toEqual(contentKey);
+    expect(() => openKeyring(keyring, carol._signingKey())).toThrow(
+      "is not a recipient",
+    );
+  });
+
+  it("rejects a public key that doesn't belong to the address", () => {
+    expect(() =>
+      createKeyring(randomBytes(32), { [bob.address]: carol.publicKey }),
+    ).toThrow("does not belong to");
+  });
+
+  it("rotates away a removed recipient and keeps older keys", () => {
+    const oldKey = randomBytes(32);
+    const keyring = createKeyring(oldKey, recipientsOf(owner, bob, carol));
+    const rotated = rotateKeyring(keyring, [oldKey], carol.address);
+
+    expect(rotated.keyring.keyVersion).toBe(2);
+    expect(openKeyring(rotated.keyring, bob._signingKey())).toEqual([
+      rotated.contentKey,
+      oldKey,
+    ]);
+    expect(() => openKeyring(rotated.keyring, carol._signingKey())).toThrow(
+      "is not a recipient",
+    );
+  });
+
+  it("recovers who signed a keyring", async () => {
+    const keyring = await signKeyring(
+      createKeyring(randomBytes(32), recipientsOf(owner, bob)),
+      owner,
+    );
+    expect(recoverKeyringSigner(keyring)).toBe(owner.address);
+
+    // Re-signing replaces the signature instead of covering it
+    const resigned = await signKeyring(keyring, bob);
+    expect(recoverKeyringSigner(resigned)).toBe(bob.address);
+  });
+
+  it("doesn't recover a signer for unsigned or altered keyrings", async () => {
+    const keyring = createKeyring(randomBytes(32), recipientsOf(owner, bob));
+    expect(recoverKeyringSigner(keyring)).toBeNull();
+
+    const signed = await signKeyring(keyring, owner);
+    const altered = {
+      ...signed,
+      recipients: createKeyring(randomBytes(32), recipientsOf(bob)).recipients,
+    };
+    expect(recoverKeyringSigner(altered)).not.toBe(owner.address);
+    expect(recoverKeyringSigner({ ...signed, signature: "0x1234" })).toBeNull();
+  });
+});
+
+describe("MemoryClient keyrings", () => {
+  const owner = ethers.Wallet.createRandom();
+  const admin = ethers.Wallet.createRandom();
+  const writer = ethers.Wallet.createRandom(); // WRITE grantee only
+  const bob = ethers.Wallet.createRandom();
+
+  function createReader(history: Record<string, any>) {
+    const client: any = new MemoryClient({
+      privateKey: bob.privateKey,
+      enableFactExtraction: false,
+    });
+    client._getStreamHistory = async () => Object.keys(history);
+    for (const [cid, keyring] of Object.entries(history)) {
+      client.documentCache.set(cid, { id: cid, type: "keyring", keyring });
+    }
+    client._getRegistryContract = async () => ({
+      streams: async () => ({ exists: true, owner: owner.address }),
+    });
+    client._getAccessContract = async () => ({
+      isAuthorized: async (_: string, address: string, capability: string) =>
+        capability === "ADMIN" && address === admin.address,
+    });
+    return client;
+  }
+
+  it("ignores keyrings not signed by the owner or an ADMIN", async () => {
+    const sharedKey = randomBytes(32);
+    const forgedKey = randomBytes(32);
+    const shared = await signKeyring(
+      createKeyring(sharedKey, recipientsOf(owner, bob)),
+      owner,
+    );
+    const forged = await signKeyring(
+      createKeyring(forgedKey, recipientsOf(writer, bob), 2),
+      writer,
+    );
+    const unsigned = createKeyring(forgedKey, recipientsOf(writer, bob), 3);
+
+    const loaded = await createReader({
+      "cid-shared": shared,
+      "cid-forged": forged,
+      "cid-unsigned": unsigned,
+    })._loadKeyring("alice");
+    expect(loaded.keyring.keyVersion).toBe(1);
+    expect(loaded.keys).toEqual([sharedKey]);
+  });
+
+  it("trusts keyrings signed by an ADMIN", async () => {
+    const rotatedKey = randomBytes(32);
+    const rotated = await signKeyring(
+      createKeyring(rotatedKey, recipientsOf(admin, bob), 2),
+      admin,
+    );
+
+    const loaded = await createReader({ "cid-rotated": rotated })._loadKeyring(
+      "alice",
+    );
+    expect(loaded.keys).toEqual([rotatedKey]);
+  });
+});
@@ -0,0 +1,130 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { isEncryptedEnvelope } from "../encryption";
+import { SQLiteOutbox } from "../outbox";
+import { MemoryClient } from "../seim0";
+
+describe("SQLiteOutbox", () => {
+  let dbPath: string;
+  let outbox: SQLiteOutbox;
+
+  beforeEach(() => {
+    dbPath = path.join(
+      os.tmpdir(),
+      `seim0-outbox-${Date.now()}-${Math.random()}.db`,
+    );
+    outbox = new SQLiteOutbox(dbPath);
+  });
+
+  afterEach(async () => {
+    outbox.close();
+    await fs.rm(dbPath, { force: true });
+  });
+
+  it("ignores a write enqueued twice", async () => {
+    await outbox.enqueue("mem_1", "alice", { content: "likes tea" }, "{}");
+    const again = await outbox.enqueue(
+      "mem_1",
+      "alice",
+      { content: "changed" },
+      "{}",
+    );
+
+    expect(again.payload).toEqual({ content: "likes tea" });
+    expect(again.status).toBe("pending");
+  });
+
+  it("leases due writes to one client at a time", async () => {
+    await outbox.enqueue("mem_1", "alice", {}, "{}");
+    const other = new SQLiteOutbox(dbPath);
+    try {
+      const now = Date.now();
+      expect((await outbox.claimDue(1000, now)).map((e) => e.id)).toEqual([
+        "mem_1",
+      ]);
+      expect(await other.claimDue(1000, now)).toEqual([]);
+
+      // A crashed client's lease runs out
+      expect((await other.claimDue(1000, now + 1000)).map((e) => e.id)).toEqual(
+        ["mem_1"],
+      );
+    } finally {
+      other.close();
+    }
+  });
+
+  it("backs off failed attempts and gives up without a next attempt", async () => {
+    await outbox.enqueue("mem_1", "alice", {}, "{}");
+    const retryAt = Date.now() + 60000;
+
+    await outbox.markAttemptFailed("mem_1", "gateway timeout", retryAt);
+    let entry = (await outbox.get("mem_1"))!;
+    expect(entry).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "gateway timeout",
+      nextAttemptAt: retryAt,
+    });
+    expect(await outbox.claimDue(1000)).toEqual([]);
+
+    await outbox.markAttemptFailed("mem_1", "gateway timeout");
+    entry = (await outbox.get("mem_1"))!;
+    expect(entry).toMatchObject({ status: "failed", attempts: 2 });
+  });
+
+  it("records pinning, submission and confirmation", async () => {
+    await outbox.enqueue("mem_1", "alice", { content: "likes tea" }, "{}");
+    await outbox.markPinned("mem_1", "cid-1", "0xroot", false, {
+      pinned: true,
+    });
+    await outbox.markSubmitted(["mem_1"]);
+    await outbox.markSubmitted(["mem_1"], "0xtx");
+
+    let entry = (await outbox.get("mem_1"))!;
+    expect(entry).toMatchObject({
+      status: "pinned",
+      cid: "cid-1",
+      merkleRoot: "0xroot",
+      txHash: "0xtx",
+      payload: { pinned: true },
+    });
+    expect(entry.submittedAt).toBeDefined();
+
+    await outbox.markConfirmed("mem_1", "0xtx", false);
+    entry = (await outbox.get("mem_1"))!;
+    expect(entry.status).toBe("confirmed");
+    expect(await outbox.claimDue(1000)).toEqual([]);
+  });
+});
+
+describe("MemoryClient outbox", () => {
+  it("keeps queued writes encrypted when encryption is on", async () => {
+    const dbPath = path.join(os.tmpdir(), `seim0-outbox-${Date.now()}.db`);
+    const client: any = new MemoryClient({
+      privateKey: `0x${"11".repeat(32)}`,
+      enableFactExtraction: false,
+      encryption: { key: "22".repeat(32) },
+      outbox: { path: dbPath, flushIntervalMs: 60000 },
+    });
+    client.flushOutbox = async () => undefined; // Nothing is delivered here
+
+    try {
+      const receipt = await client.add(
+        [{ role: "user", content: "I live in Lisbon" }],
+        { user_id: "alice" },
+      );
+      const entry = await client.outbox.get(receipt.deliveryId);
+
+      expect(isEncryptedEnvelope(entry.payload)).toBe(true);
+      expect(JSON.stringify(entry.payload)).not.toContain("Lisbon");
+      expect(entry.metadata).not.toContain("alice");
+
+      const document = await client._openQueuedPayload(entry.payload);
+      expect(document.content).toContain("I live in Lisbon");
+    } finally {
+      client.outbox.close();
+      await fs.rm(dbPath, { force: true });
+    }
+  });
+});
@@ -0,0 +1,382 @@
+import { BigNumber, Contract, Signer, ethers } from "ethers";
+import {
+  PaymentVaultContract,
+  connectPaymentVault,
+  decodeEventArgs,
+} from "../oss/src/contracts";
+import {
+  ConfigurationError,
+  IndexQueryError,
+  InsufficientBalanceError,
+  ValidationError,
+  toChainError,
+} from "./errors";
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+];
+
+// USDC amount in whole units, e.g. "12.5"; converted with the token's decimals
+export type UsdcAmount = string | number;
+
+export interface VaultClientConfig {
+  vaultAddress: string;
+  rpcUrl: string;
+  signer?: Signer | (() => Promise<Signer | undefined>); // Needed for anything that moves funds
+  startBlock?: number; // Where event replay starts by default
+  logBlockRange?: number; // Max blocks per eth_getLogs request
+}
+
+interface VaultEventBase {
+  amount: string; // Whole USDC units
+  timestamp: Date;
+  blockNumber: number;
+  txHash: string;
+}
+
+export type VaultEvent =
+  | (VaultEventBase & { type: "Deposited"; user: string })
+  | (VaultEventBase & { type: "Withdrawn"; user: string })
+  | (VaultEventBase & {
+      type: "IndexingPaid";
+      streamIdHash: string; // keccak256 of the stream ID, which is indexed
+      payer: string;
+      indexer: string;
+    })
+  | (VaultEventBase & {
+      type: "TipSent";
+      streamIdHash: string;
+      from: string;
+      to: string;
+    });
+
+export type VaultEventType = VaultEvent["type"];
+
+export interface VaultEventQuery {
+  types?: VaultEventType[]; // All four by default
+  streamId?: string; // Only payments and tips for this stream
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+const VAULT_EVENT_TYPES: VaultEventType[] = [
+  "Deposited",
+  "Withdrawn",
+  "IndexingPaid",
+  "TipSent",
+];
+
+/**
+ * Deposits, indexing payments, tips and earnings on PaymentVault. Amounts go
+ * in and come out in whole USDC units.
+ */
+export class VaultClient {
+  private config: VaultClientConfig;
+  private provider: ethers.providers.JsonRpcProvider;
+  private decimals?: number;
+
+  constructor(config: VaultClientConfig) {
+    this.config = config;
+    this.provider = new ethers.providers.JsonRpcProvider(config.rpcUrl);
+  }
+
+  /**
+   * Move USDC from the signer's wallet into the vault, approving the vault to
+   * spend it first if the current allowance is too low
+   */
+  async deposit(amount: UsdcAmount): Promise<string> {
+    const vault = await this.getVault(true);
+    const units = await this.parseAmount(amount);
+
+    try {
+      const owner = await vault.signer.getAddress();
+      const usdc = await this.getUsdc(vault.signer);
+      const walletBalance: BigNumber = await usdc.balanceOf(owner);
+      if (walletBalance.lt(units)) {
+        throw new InsufficientBalanceError(
+          `Wallet holds ${await this.formatAmount(walletBalance)} USDC, ${amount} needed`,
+        );
+      }
+
+      const allowance: BigNumber = await usdc.allowance(owner, vault.address);
+      if (allowance.lt(units)) {
+        console.log(`📝 Approving vault to spend ${amount} USDC`);
+        await this.send("approve USDC", () =>
+          usdc.approve(vault.address, units),
+        );
+      }
+    } catch (error) {
+      throw toChainError("Failed to prepare USDC deposit", error);
+    }
+
+    const hash = await this.send("deposit USDC", () =>
+      vault.depositUSDC(units),
+    );
+    console.log(`💰 Deposited ${amount} USDC: ${hash}`);
+    return hash;
+  }
+
+  async withdraw(amount: UsdcAmount): Promise<string> {
+    const vault = await this.getVault(true);
+    const units = await this.parseAmount(amount);
+    return this.send("withdraw USDC", () => vault.withdraw(units));
+  }
+
+  /**
+   * Pay `indexer` from the vault balance for indexing a stream. The vault
+   * keeps a 1% protocol fee.
+   */
+  async payIndexing(
+    streamId: string,
+    indexer: string,
+    amount: UsdcAmount,
+  ): Promise<string> {
+    const vault = await this.getVault(true);
+    const units = await this.parseAmount(amount);
+    return this.send(`pay indexing of ${streamId}`, () =>
+      vault.payIndexing(streamId, indexer, units),
+    );
+  }
+
+  async sendTip(
+    streamId: string,
+    to: string,
+    amount: UsdcAmount,
+  ): Promise<string> {
+    const vault = await this.getVault(true);
+    const units = await this.parseAmount(amount);
+    return this.send(`tip ${to}`, () => vault.sendTip(streamId, to, units));
+  }
+
+  /**
+   * Withdraw everything the signer earned as an indexer
+   */
+  async withdrawEarnings(): Promise<string> {
+    const vault = await this.getVault(true);
+    return this.send("withdraw earnings", () => vault.withdrawEarnings());
+  }
+
+  // Vault balance of `address`, the signer by default
+  async getBalance(address?: string): Promise<string> {
+    return this.query("read vault balance", async (vault) =>
+      vault.getBalance(address || (await this.getSignerAddress())),
+    );
+  }
+
+  async getStreamPayments(streamId: string): Promise<string> {
+    return this.query(`read payments of ${streamId}`, (vault) =>
+      vault.getStreamPayments(streamId),
+    );
+  }
+
+  // Unwithdrawn indexer earnings of `address`, the signer by default
+  async getIndexerEarnings(address?: string): Promise<string> {
+    return this.query("read indexer earnings", async (vault) =>
+      vault.getIndexerEarnings(address || (await this.getSignerAddress())),
+    );
+  }
+
+  /**
+   * Replay vault events, oldest first
+   */
+  async getEvents(query: VaultEventQuery = {}): Promise<VaultEvent[]> {
+    try {
+      const vault = await this.getVault();
+      const types = query.types || VAULT_EVENT_TYPES;
+      const fromBlock = query.fromBlock ?? this.config.startBlock ?? 0;
+      const toBlock = query.toBlock ?? (await this.provider.getBlockNumber());
+      const blockRange = this.config.logBlockRange || 2000;
+
+      const events: VaultEvent[] = [];
+      for (const type of types) {
+        // Deposits and withdrawals aren't tied to a stream
+        const streamScoped = type === "IndexingPaid" || type === "TipSent";
+        if (query.streamId && !streamScoped) continue;
+
+        const filter = streamScoped
+          ? vault.filters[type](query.streamId ?? null)
+          : vault.filters[type]();
+        // RPC nodes cap eth_getLogs ranges, so walk the chain in fixed-size windows
+        for (let start = fromBlock; start <= toBlock; start += blockRange) {
+          const end = Math.min(start + blockRange - 1, toBlock);
+          for (const event of await vault.queryFilter(filter, start, end)) {
+            events.push(await this.toVaultEvent(vault, event));
+          }
+        }
+      }
+      return events.sort((a, b) => a.blockNumber - b.blockNumber);
+    } catch (error) {
+      if (error instanceof ConfigurationError) throw error;
+      throw new IndexQueryError("Failed to read vault events", {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Call `listener` for every new vault event. Returns a function that stops
+   * the feed.
+   */
+  subscribe(listener: (event: VaultEvent) => void): () => void {
+    const vault = connectPaymentVault(
+      this.requireVaultAddress(),
+      this.provider,
+    );
+    const handlers = VAULT_EVENT_TYPES.map((type) => {
+      const handler = (...args: any[]) => {
+        this.toVaultEvent(vault, args[args.length - 1])
+          .then(listener)
+          .catch((error) =>
+            console.error(`Error decoding vault ${type} event:`, error),
+          );
+      };
+      vault.on(type, handler);
+      return { type, handler };
+    });
+
+    return () => {
+      for (const { type, handler } of handlers) {
+        vault.off(type, handler);
+      }
+    };
+  }
+
+  private async toVaultEvent(
+    vault: PaymentVaultContract,
+    event: ethers.Event,
+  ): Promise<VaultEvent> {
+    const args = decodeEventArgs(vault, event);
+    const base: VaultEventBase = {
+      amount: await this.formatAmount(args.amount),
+      timestamp: new Date(args.timestamp.toNumber() * 1000),
+      blockNumber: event.blockNumber,
+      txHash: event.transactionHash,
+    };
+
+    switch (event.event) {
+      case "Deposited":
+      case "Withdrawn":
+        return { ...base, type: event.event, user: args.user };
+      case "IndexingPaid":
+        return {
+          ...base,
+          type: "IndexingPaid",
+          streamIdHash: args.streamId.hash,
+          payer: args.payer,
+          indexer: args.indexer,
+        };
+      case "TipSent":
+        return {
+          ...base,
+          type: "TipSent",
+          streamIdHash: args.streamId.hash,
+          from: args.from,
+          to: args.to,
+        };
+      default:
+        throw new ValidationError(`Unknown vault event ${event.event}`);
+    }
+  }
+
+  private async getSigner(): Promise<Signer | undefined> {
+    const { signer } = this.config;
+    return typeof signer === "function" ? signer() : signer;
+  }
+
+  private async getSignerAddress(): Promise<string> {
+    const signer = await this.getSigner();
+    if (!signer) {
+      throw new ConfigurationError("An address or a signer is required");
+    }
+    return signer.getAddress();
+  }
+
+  private requireVaultAddress(): string {
+    if (!this.config.vaultAddress) {
+      throw new ConfigurationError("No PaymentVault address is configured");
+    }
+    return this.config.vaultAddress;
+  }
+
+  private async getVault(
+    write: boolean = false,
+  ): Promise<PaymentVaultContract> {
+    const signer = await this.getSigner();
+    if (write && !signer) {
+      throw new ConfigurationError("A signer is required to move funds");
+    }
+    return connectPaymentVault(
+      this.requireVaultAddress(),
+      signer || this.provider,
+    );
+  }
+
+  private async getUsdc(signerOrProvider: Signer | ethers.providers.Provider) {
+    const vault = await this.getVault();
+    return new Contract(await vault.usdcToken(), ERC20_ABI, signerOrProvider);
+  }
+
+  private async getDecimals(): Promise<number> {
+    if (this.decimals === undefined) {
+      this.decimals = await (await this.getUsdc(this.provider)).decimals();
+    }
+    return this.decimals!;
+  }
+
+  private async parseAmount(amount: UsdcAmount): Promise<BigNumber> {
+    let decimals: number;
+    try {
+      decimals = await this.getDecimals();
+    } catch (error) {
+      if (error instanceof ConfigurationError) throw error;
+      throw new IndexQueryError("Failed to read USDC decimals", {
+        cause: error,
+      });
+    }
+
+    let units: BigNumber;
+    try {
+      units = ethers.utils.parseUnits(String(amount), decimals);
+    } catch (error) {
+      throw new ValidationError(`Invalid USDC amount: ${amount}`, {
+        cause: error,
+      });
+    }
+    if (units.lte(0)) {
+      throw new ValidationError("Amount must be greater than 0");
+    }
+    return units;
+  }
+
+  private async formatAmount(units: BigNumber): Promise<string> {
+    return ethers.utils.formatUnits(units, await this.getDecimals());
+  }
+
+  private async send(
+    description: string,
+    send: () => Promise<ethers.ContractTransaction>,
+  ): Promise<string> {
+    try {
+      const tx = await send();
+      await tx.wait();
+      return tx.hash;
+    } catch (error) {
+      throw toChainError(`Failed to ${description}`, error);
+    }
+  }
+
+  private async query(
+    description: string,
+    read: (vault: PaymentVaultContract) => Promise<BigNumber>,
+  ): Promise<string> {
+    try {
+      return await this.formatAmount(await read(await this.getVault()));
+    } catch (error) {
+      if (error instanceof ConfigurationError) throw error;
+      throw new IndexQueryError(`Failed to ${description}`, { cause: error });
+    }
+  }
+}
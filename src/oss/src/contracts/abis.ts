@@ -0,0 +1,84 @@
+// Generated by contracts/scripts/export-abis.js, do not edit by hand
+
+export const MEMORY_REGISTRY_ABI = [
+  "constructor(address _accessControl)",
+  "error ECDSAInvalidSignature()",
+  "error ECDSAInvalidSignatureLength(uint256 length)",
+  "error ECDSAInvalidSignatureS(bytes32 s)",
+  "error InvalidShortString()",
+  "error StringTooLong(string str)",
+  "event DelegatedAppend(string indexed streamId, address indexed author, address indexed relayer, uint256 nonce)",
+  "event EIP712DomainChanged()",
+  "event IndexRootUpdated(string indexed streamId, bytes32 newIndexRoot, address indexed indexer, uint256 timestamp)",
+  "event MemoryAppended(string indexed streamId, string cid, bytes32 merkleRoot, string metadata, uint256 timestamp, string stream)",
+  "event PolicyUpdated(string indexed streamId, string newPolicy, uint256 timestamp)",
+  "event StreamRegistered(string indexed streamId, address indexed owner, string policy, uint256 timestamp, string stream)",
+  "function APPEND_TYPEHASH() view returns (bytes32)",
+  "function MAX_BATCH_SIZE() view returns (uint256)",
+  "function REGISTER_TYPEHASH() view returns (bytes32)",
+  "function accessControl() view returns (address)",
+  "function append(string streamId, string cid, bytes32 merkleRoot, string metadata)",
+  "function appendWithSig(tuple(string streamId, string cid, bytes32 merkleRoot, string metadata, address author, uint256 deadline) intent, bytes signature)",
+  "function batchAppend(string streamId, string[] cids, bytes32[] merkleRoots, string[] metadata)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function getHead(string streamId) view returns (string cid, bytes32 merkleRoot, uint256 lastUpdated)",
+  "function getIndexRoot(string streamId) view returns (bytes32)",
+  "function getStreamHistory(string streamId) view returns (string[])",
+  "function nonces(address) view returns (uint256)",
+  "function registerStream(string streamId, address owner, string policy)",
+  "function registerStreamWithSig(tuple(string streamId, address owner, string policy, uint256 deadline) intent, bytes signature)",
+  "function setAuthorizedIndexer(string streamId, address indexer)",
+  "function setIndexRoot(string streamId, bytes32 indexRoot)",
+  "function setPolicy(string streamId, string policy)",
+  "function streamExists(string streamId) view returns (bool)",
+  "function streamHistory(string, uint256) view returns (string)",
+  "function streams(string) view returns (address owner, string policy, string latestCID, bytes32 latestMerkleRoot, uint256 lastUpdated, bytes32 indexRoot, address authorizedIndexer, bool exists)",
+];
+
+export const MEMORY_ACCESS_ABI = [
+  "constructor()",
+  "event Authorized(string indexed streamId, address indexed addr, string capability, uint8 role, uint256 timestamp)",
+  "event LimitsSet(string indexed streamId, address indexed addr, string capability, uint256 expiresAt, string scope, uint256 maxReads)",
+  "event PolicySet(string indexed streamId, string policy, bool value, uint256 timestamp)",
+  "event ReadRecorded(string indexed streamId, address indexed addr, string capability, uint256 reads, uint256 timestamp)",
+  "event RegistrySet(address indexed registry)",
+  "event Revoked(string indexed streamId, address indexed addr, string capability, uint256 timestamp)",
+  "function authorizations(string, address, string) view returns (uint8 role, bool revoked, uint256 grantedAt, uint256 revokedAt, uint256 expiresAt, string scope, uint256 maxReads, uint256 reads)",
+  "function authorize(string streamId, address addr, string capability, uint8 role)",
+  "function authorizeWithLimits(string streamId, address addr, string capability, uint8 role, uint256 expiresAt, string scope, uint256 maxReads)",
+  "function bootstrapOwner(string streamId, address owner)",
+  "function deployer() view returns (address)",
+  "function getAuthorization(string streamId, address addr, string capability) view returns (tuple(uint8 role, bool revoked, uint256 grantedAt, uint256 revokedAt, uint256 expiresAt, string scope, uint256 maxReads, uint256 reads))",
+  "function getPolicy(string streamId, string policy) view returns (bool)",
+  "function isAuthorized(string streamId, address addr, string capability) view returns (bool)",
+  "function isAuthorizedForScope(string streamId, address addr, string capability, string scope) view returns (bool)",
+  "function policies(string, string) view returns (bool)",
+  "function recordRead(string streamId, address addr, string capability)",
+  "function registry() view returns (address)",
+  "function revoke(string streamId, address addr, string capability)",
+  "function setPolicy(string streamId, string policy, bool value)",
+  "function setRegistry(address _registry)",
+];
+
+export const PAYMENT_VAULT_ABI = [
+  "constructor(address _usdcToken)",
+  "error ReentrancyGuardReentrantCall()",
+  "event Deposited(address indexed user, uint256 amount, uint256 timestamp)",
+  "event IndexingPaid(string indexed streamId, address indexed payer, address indexed indexer, uint256 amount, uint256 timestamp)",
+  "event TipSent(string indexed streamId, address indexed from, address indexed to, uint256 amount, uint256 timestamp)",
+  "event Withdrawn(address indexed user, uint256 amount, uint256 timestamp)",
+  "function BASIS_POINTS_DENOMINATOR() view returns (uint256)",
+  "function INDEXING_FEE_BASIS_POINTS() view returns (uint256)",
+  "function balances(address) view returns (uint256)",
+  "function depositUSDC(uint256 amount)",
+  "function getBalance(address user) view returns (uint256)",
+  "function getIndexerEarnings(address indexer) view returns (uint256)",
+  "function getStreamPayments(string streamId) view returns (uint256)",
+  "function indexerEarnings(address) view returns (uint256)",
+  "function payIndexing(string streamId, address indexer, uint256 amount)",
+  "function sendTip(string streamId, address to, uint256 amount)",
+  "function streamPayments(string) view returns (uint256)",
+  "function usdcToken() view returns (address)",
+  "function withdraw(uint256 amount)",
+  "function withdrawEarnings()",
+];
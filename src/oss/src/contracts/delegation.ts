@@ -0,0 +1,136 @@
+import { BigNumberish, Signer, TypedDataDomain, ethers } from "ethers";
+
+// MemoryRegistry.AppendIntent
+export interface AppendIntent {
+  streamId: string;
+  cid: string;
+  merkleRoot: string;
+  metadata: string;
+  author: string;
+  deadline: BigNumberish; // Unix seconds after which the registry rejects it
+}
+
+// Intent plus what a relayer needs to submit it with appendWithSig
+export interface SignedAppend {
+  intent: AppendIntent;
+  nonce: BigNumberish;
+  signature: string;
+}
+
+// MemoryRegistry.RegisterIntent
+export interface RegisterIntent {
+  streamId: string;
+  owner: string;
+  policy: string;
+  deadline: BigNumberish;
+}
+
+// Intent plus what a relayer needs to submit it with registerStreamWithSig
+export interface SignedRegister {
+  intent: RegisterIntent;
+  nonce: BigNumberish;
+  signature: string;
+}
+
+export const APPEND_TYPES = {
+  Append: [
+    { name: "streamId", type: "string" },
+    { name: "cid", type: "string" },
+    { name: "merkleRoot", type: "bytes32" },
+    { name: "metadata", type: "string" },
+    { name: "author", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const REGISTER_TYPES = {
+  Register: [
+    { name: "streamId", type: "string" },
+    { name: "owner", type: "address" },
+    { name: "policy", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * EIP-712 domain of a MemoryRegistry deployment
+ */
+export function getAppendDomain(
+  registryAddress: string,
+  chainId: number,
+): TypedDataDomain {
+  return {
+    name: "MemoryRegistry",
+    version: "1",
+    chainId,
+    verifyingContract: registryAddress,
+  };
+}
+
+/**
+ * Sign an append intent as its author. `nonce` must be the registry's
+ * current `nonces(author)`; the signer needs no gas.
+ */
+export async function signAppend(
+  signer: Signer,
+  registryAddress: string,
+  intent: AppendIntent,
+  nonce: BigNumberish,
+): Promise<SignedAppend> {
+  const domain = getAppendDomain(registryAddress, await signer.getChainId());
+  const signature = await (
+    signer as Signer & Pick<ethers.Wallet, "_signTypedData">
+  )._signTypedData(domain, APPEND_TYPES, { ...intent, nonce });
+  return { intent, nonce, signature };
+}
+
+/**
+ * Address that signed an append intent
+ */
+export function recoverAppendSigner(
+  signed: SignedAppend,
+  registryAddress: string,
+  chainId: number,
+): string {
+  return ethers.utils.verifyTypedData(
+    getAppendDomain(registryAddress, chainId),
+    APPEND_TYPES,
+    { ...signed.intent, nonce: signed.nonce },
+    signed.signature,
+  );
+}
+
+/**
+ * Sign a stream registration as its owner. Registrations and appends share
+ * the owner's `nonces` counter.
+ */
+export async function signRegister(
+  signer: Signer,
+  registryAddress: string,
+  intent: RegisterIntent,
+  nonce: BigNumberish,
+): Promise<SignedRegister> {
+  const domain = getAppendDomain(registryAddress, await signer.getChainId());
+  const signature = await (
+    signer as Signer & Pick<ethers.Wallet, "_signTypedData">
+  )._signTypedData(domain, REGISTER_TYPES, { ...intent, nonce });
+  return { intent, nonce, signature };
+}
+
+/**
+ * Address that signed a stream registration
+ */
+export function recoverRegisterSigner(
+  signed: SignedRegister,
+  registryAddress: string,
+  chainId: number,
+): string {
+  return ethers.utils.verifyTypedData(
+    getAppendDomain(registryAddress, chainId),
+    REGISTER_TYPES,
+    { ...signed.intent, nonce: signed.nonce },
+    signed.signature,
+  );
+}
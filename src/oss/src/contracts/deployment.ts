@@ -0,0 +1,53 @@
+import { readFileSync } from "fs";
+import { ethers } from "ethers";
+import { ConfigurationError } from "../utils/errors";
+
+// Shape of the deployment-info.json written by contracts/scripts/deploy.js
+export interface DeploymentInfo {
+  network: string;
+  chainId: number;
+  contracts: {
+    MemoryAccess: string;
+    MemoryRegistry: string;
+    PaymentVault: string;
+  };
+  usdcAddress?: string;
+  deployer?: string;
+  deployedAt?: string;
+  startBlock?: number; // Block MemoryRegistry was deployed at
+}
+
+/**
+ * Read and check a deployment, given as a path to deployment-info.json or
+ * as its parsed contents
+ */
+export function loadDeployment(
+  source: string | DeploymentInfo,
+): DeploymentInfo {
+  let deployment: DeploymentInfo;
+  if (typeof source === "string") {
+    try {
+      deployment = JSON.parse(readFileSync(source, "utf8"));
+    } catch (error) {
+      throw new ConfigurationError(`Could not read deployment ${source}`, {
+        cause: error,
+      });
+    }
+  } else {
+    deployment = source;
+  }
+
+  for (const contract of [
+    "MemoryAccess",
+    "MemoryRegistry",
+    "PaymentVault",
+  ] as const) {
+    const address = deployment.contracts?.[contract];
+    if (!address || !ethers.utils.isAddress(address)) {
+      throw new ConfigurationError(
+        `Deployment has no valid ${contract} address`,
+      );
+    }
+  }
+  return deployment;
+}
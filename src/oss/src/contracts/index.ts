@@ -0,0 +1,291 @@
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  ContractTransaction,
+  Event,
+  Overrides,
+  Signer,
+  providers,
+  utils,
+} from "ethers";
+import {
+  MEMORY_ACCESS_ABI,
+  MEMORY_REGISTRY_ABI,
+  PAYMENT_VAULT_ABI,
+} from "./abis";
+import { AppendIntent, RegisterIntent } from "./delegation";
+
+export * from "./abis";
+export * from "./deployment";
+export * from "./delegation";
+
+type SignerOrProvider = Signer | providers.Provider;
+
+// MemoryAccess.Role
+export enum AccessRole {
+  NONE = 0,
+  OWNER = 1,
+  AGENT = 2,
+  INDEXER = 3,
+  PUBLIC = 4,
+}
+
+// MemoryRegistry.MemoryStream
+export interface StreamRecord {
+  owner: string;
+  policy: string;
+  latestCID: string;
+  latestMerkleRoot: string;
+  lastUpdated: BigNumber;
+  indexRoot: string;
+  authorizedIndexer: string;
+  exists: boolean;
+}
+
+// MemoryAccess.Authorization
+export interface AuthorizationRecord {
+  role: AccessRole;
+  revoked: boolean;
+  grantedAt: BigNumber;
+  revokedAt: BigNumber;
+  expiresAt: BigNumber; // Zero when the grant never expires
+  scope: string; // Empty when the grant covers the whole stream
+  maxReads: BigNumber; // Zero when reads are unlimited
+  reads: BigNumber;
+}
+
+// Part of a stream a grant is limited to
+export type GrantScope = { agentId: string } | { namespace: string };
+
+/**
+ * Scope string stored with a grant and passed to isAuthorizedForScope
+ */
+export function encodeGrantScope(scope: GrantScope): string {
+  return "agentId" in scope
+    ? `agent:${scope.agentId}`
+    : `namespace:${scope.namespace}`;
+}
+
+export interface MemoryRegistryContract extends Contract {
+  registerStream(
+    streamId: string,
+    owner: string,
+    policy: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  registerStreamWithSig(
+    intent: RegisterIntent,
+    signature: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  append(
+    streamId: string,
+    cid: string,
+    merkleRoot: string,
+    metadata: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  batchAppend(
+    streamId: string,
+    cids: string[],
+    merkleRoots: string[],
+    metadata: string[],
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  appendWithSig(
+    intent: AppendIntent,
+    signature: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  nonces(signer: string): Promise<BigNumber>;
+  setIndexRoot(
+    streamId: string,
+    indexRoot: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  setAuthorizedIndexer(
+    streamId: string,
+    indexer: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  setPolicy(
+    streamId: string,
+    policy: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  getHead(
+    streamId: string,
+  ): Promise<{ cid: string; merkleRoot: string; lastUpdated: BigNumber }>;
+  getIndexRoot(streamId: string): Promise<string>;
+  getStreamHistory(streamId: string): Promise<string[]>;
+  streamExists(streamId: string): Promise<boolean>;
+  streams(streamId: string): Promise<StreamRecord>;
+  MAX_BATCH_SIZE(): Promise<BigNumber>;
+}
+
+export interface MemoryAccessContract extends Contract {
+  authorize(
+    streamId: string,
+    addr: string,
+    capability: string,
+    role: AccessRole,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  revoke(
+    streamId: string,
+    addr: string,
+    capability: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  setPolicy(
+    streamId: string,
+    policy: string,
+    value: boolean,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  authorizeWithLimits(
+    streamId: string,
+    addr: string,
+    capability: string,
+    role: AccessRole,
+    expiresAt: BigNumberish,
+    scope: string,
+    maxReads: BigNumberish,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  recordRead(
+    streamId: string,
+    addr: string,
+    capability: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  isAuthorized(
+    streamId: string,
+    addr: string,
+    capability: string,
+  ): Promise<boolean>;
+  isAuthorizedForScope(
+    streamId: string,
+    addr: string,
+    capability: string,
+    scope: string,
+  ): Promise<boolean>;
+  getAuthorization(
+    streamId: string,
+    addr: string,
+    capability: string,
+  ): Promise<AuthorizationRecord>;
+  getPolicy(streamId: string, policy: string): Promise<boolean>;
+  setRegistry(
+    registry: string,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  registry(): Promise<string>;
+}
+
+export interface PaymentVaultContract extends Contract {
+  depositUSDC(
+    amount: BigNumberish,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  withdraw(
+    amount: BigNumberish,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  payIndexing(
+    streamId: string,
+    indexer: string,
+    amount: BigNumberish,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  sendTip(
+    streamId: string,
+    to: string,
+    amount: BigNumberish,
+    overrides?: Overrides,
+  ): Promise<ContractTransaction>;
+  withdrawEarnings(overrides?: Overrides): Promise<ContractTransaction>;
+  getBalance(user: string): Promise<BigNumber>;
+  getStreamPayments(streamId: string): Promise<BigNumber>;
+  getIndexerEarnings(indexer: string): Promise<BigNumber>;
+  usdcToken(): Promise<string>;
+}
+
+export function connectMemoryRegistry(
+  address: string,
+  signerOrProvider: SignerOrProvider,
+): MemoryRegistryContract {
+  return new Contract(
+    address,
+    MEMORY_REGISTRY_ABI,
+    signerOrProvider,
+  ) as MemoryRegistryContract;
+}
+
+export function connectMemoryAccess(
+  address: string,
+  signerOrProvider: SignerOrProvider,
+): MemoryAccessContract {
+  return new Contract(
+    address,
+    MEMORY_ACCESS_ABI,
+    signerOrProvider,
+  ) as MemoryAccessContract;
+}
+
+export function connectPaymentVault(
+  address: string,
+  signerOrProvider: SignerOrProvider,
+): PaymentVaultContract {
+  return new Contract(
+    address,
+    PAYMENT_VAULT_ABI,
+    signerOrProvider,
+  ) as PaymentVaultContract;
+}
+
+/**
+ * Arguments of a contract event, by name. ethers 5 drops the names from
+ * `event.args` when an event has an indexed string, as every stream event
+ * does, so the log is decoded again through the contract's interface.
+ */
+export function decodeEventArgs(
+  contract: Contract,
+  event: Event,
+): utils.Result {
+  return contract.interface.decodeEventLog(
+    event.event!,
+    event.data,
+    event.topics,
+  );
+}
+
+/**
+ * Names of the functions and events in `names` that the contract deployed at
+ * `contract.address` doesn't have. Solidity embeds function selectors and
+ * event topics in the bytecode, so a deployment made before they changed is
+ * caught before a call reverts without a reason or a filter matches nothing.
+ */
+export async function findMissingFragments(
+  contract: Contract,
+  names: string[],
+  provider: providers.Provider = contract.provider,
+): Promise<string[]> {
+  const code = (await provider.getCode(contract.address)).toLowerCase();
+  return names.filter((name) => {
+    const fragment = contract.interface.fragments.find(
+      (candidate) => candidate.name === name,
+    );
+    if (!fragment) {
+      throw new Error(`${name} is not in the contract's ABI`);
+    }
+
+    const id =
+      fragment.type === "event"
+        ? contract.interface.getEventTopic(fragment as utils.EventFragment)
+        : contract.interface.getSighash(fragment as utils.FunctionFragment);
+    // Selectors with leading zero bytes are pushed without them
+    return !code.includes(id.slice(2).replace(/^(00)+/, ""));
+  });
+}
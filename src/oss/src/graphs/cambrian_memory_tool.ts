@@ -1,3 +1,19 @@
+import { ethers } from "ethers";
+import { cidLeaf, getMerkleProof, verifyProof } from "../utils/merkle";
+import { PinningService } from "../pinning/base";
+import { PinningServiceFactory } from "../utils/factory";
+import {
+  AccessRole,
+  connectMemoryAccess,
+  connectMemoryRegistry,
+} from "../contracts";
+import { ConfigurationError, getRevertReason } from "../utils/errors";
+import {
+  StreamNamingConfig,
+  StreamResolver,
+  createStreamResolver,
+} from "../utils/stream";
+
 export interface CambrianMemoryToolConfig {
   registry: string;
   access: string;
@@ -5,6 +21,9 @@ export interface CambrianMemoryToolConfig {
   ipfsGateway: string;
   seiRpcUrl: string;
   signer?: any; // ethers.js signer
+  pinning?: PinningService; // Defaults to an in-process store backed by the gateway
+  appId?: string; // Namespace for derived stream IDs
+  streamNaming?: StreamNamingConfig; // Same strategy as MemoryClient's streamNaming
 }
 
 export interface MemoryAction {
@@ -21,9 +40,18 @@ export interface MemoryAction {
 export class CambrianMemoryTool {
   private config: CambrianMemoryToolConfig;
   private actions: Map<string, MemoryAction> = new Map();
+  private pinning: PinningService;
+  private resolveStream: StreamResolver;
 
   constructor(config: CambrianMemoryToolConfig) {
     this.config = config;
+    this.pinning =
+      config.pinning ||
+      PinningServiceFactory.fromConfig({ gateway: config.ipfsGateway });
+    this.resolveStream = createStreamResolver({
+      defaultStream: "default",
+      ...config.streamNaming,
+    });
     this.initializeActions();
   }
 
@@ -42,7 +70,15 @@ export class CambrianMemoryTool {
           streamId: {
             type: "string",
             description:
-              "Optional stream ID. If not provided, uses default user stream",
+              "Optional stream ID. If not provided, derived from userId and agentId",
+          },
+          userId: {
+            type: "string",
+            description: "Optional user the memory belongs to",
+          },
+          agentId: {
+            type: "string",
+            description: "Optional agent the memory belongs to",
           },
           metadata: {
             type: "object",
@@ -68,7 +104,16 @@ export class CambrianMemoryTool {
           },
           streamId: {
             type: "string",
-            description: "Optional stream ID to search within",
+            description:
+              "Optional stream ID to search within. If not provided, derived from userId and agentId",
+          },
+          userId: {
+            type: "string",
+            description: "Optional user whose memories to search",
+          },
+          agentId: {
+            type: "string",
+            description: "Optional agent whose memories to search",
           },
           k: {
             type: "number",
@@ -97,6 +142,12 @@ export class CambrianMemoryTool {
             enum: ["AGENT", "INDEXER", "PUBLIC"],
             description: "The role to grant",
           },
+          capability: {
+            type: "string",
+            enum: ["READ", "WRITE", "ADMIN"],
+            description: "What the address may do (default: READ)",
+            default: "READ",
+          },
           streamId: {
             type: "string",
             description: "The stream ID to grant access to",
@@ -118,6 +169,12 @@ export class CambrianMemoryTool {
             type: "string",
             description: "The address to revoke access from",
           },
+          capability: {
+            type: "string",
+            enum: ["READ", "WRITE", "ADMIN"],
+            description: "The capability to revoke (default: READ)",
+            default: "READ",
+          },
           streamId: {
             type: "string",
             description: "The stream ID to revoke access from",
@@ -159,9 +216,12 @@ export class CambrianMemoryTool {
   private async remember(params: {
     text: string;
     streamId?: string;
+    userId?: string;
+    agentId?: string;
     metadata?: Record<string, any>;
   }): Promise<any> {
-    const { text, streamId = "default", metadata = {} } = params;
+    const { text, metadata = {} } = params;
+    const streamId = params.streamId || this.getStreamId(params);
 
     try {
       // 1. Generate embedding (simplified - would use actual embedder)
@@ -183,11 +243,7 @@ export class CambrianMemoryTool {
       const cid = await this.uploadToIPFS(memoryDoc);
 
       // 4. Compute Merkle leaf
-      const merkleLeaf = this.computeMerkleLeaf(
-        cid,
-        embedding,
-        memoryDoc.metadata.timestamp,
-      );
+      const merkleLeaf = this.computeMerkleLeaf(cid);
 
       // 5. Append to on-chain registry
       const txHash = await this.appendToRegistry(
@@ -220,32 +276,31 @@ export class CambrianMemoryTool {
   private async recall(params: {
     query: string;
     streamId?: string;
+    userId?: string;
+    agentId?: string;
     k?: number;
   }): Promise<any> {
-    const { query, streamId = "default", k = 5 } = params;
+    const { query, k = 5 } = params;
+    const streamId = params.streamId || this.getStreamId(params);
 
     try {
       // 1. Generate query embedding
       const queryEmbedding = await this.generateEmbedding(query);
 
-      // 2. Search index (simplified - would use actual indexer)
+      // 2. Rank the stream's memories, hydrated from IPFS
       const searchResults = await this.searchIndex(queryEmbedding, streamId, k);
 
-      // 3. Verify results against on-chain data
+      // 3. Verify results against the published index root
       const verifiedResults = [];
       for (const result of searchResults) {
-        const verified = await this.verifyResult(result);
-        if (verified) {
-          // 4. Hydrate from IPFS
-          const content = await this.fetchFromIPFS(result.cid);
-          verifiedResults.push({
-            id: result.cid,
-            content: content?.content || "",
-            score: result.score,
-            metadata: content?.metadata || {},
-            verified: true,
-          });
-        }
+        const verified = await this.verifyResult(result, streamId);
+        verifiedResults.push({
+          id: result.cid,
+          content: result.document.content || "",
+          score: result.score,
+          metadata: result.document.metadata || {},
+          verified,
+        });
       }
 
       return {
@@ -253,7 +308,7 @@ export class CambrianMemoryTool {
         results: verifiedResults,
         query,
         streamId,
-        message: `Found ${verifiedResults.length} verified memories`,
+        message: `Found ${verifiedResults.filter((r) => r.verified).length} verified memories`,
       };
     } catch (error) {
       return {
@@ -270,18 +325,24 @@ export class CambrianMemoryTool {
   private async grant(params: {
     address: string;
     role: string;
+    capability?: string;
     streamId: string;
   }): Promise<any> {
-    const { address, role, streamId } = params;
+    const { address, role, capability = "READ", streamId } = params;
 
     try {
       // Call MemoryAccess contract to grant permission
-      const txHash = await this.grantAccess(streamId, address, role);
+      const txHash = await this.grantAccess(
+        streamId,
+        address,
+        capability,
+        role,
+      );
 
       return {
         success: true,
         txHash,
-        message: `Granted ${role} access to ${address} for stream ${streamId}`,
+        message: `Granted ${capability} as ${role} to ${address} for stream ${streamId}`,
       };
     } catch (error) {
       return {
@@ -297,18 +358,19 @@ export class CambrianMemoryTool {
    */
   private async revoke(params: {
     address: string;
+    capability?: string;
     streamId: string;
   }): Promise<any> {
-    const { address, streamId } = params;
+    const { address, capability = "READ", streamId } = params;
 
     try {
       // Call MemoryAccess contract to revoke permission
-      const txHash = await this.revokeAccess(streamId, address);
+      const txHash = await this.revokeAccess(streamId, address, capability);
 
       return {
         success: true,
         txHash,
-        message: `Revoked access for ${address} from stream ${streamId}`,
+        message: `Revoked ${capability} for ${address} from stream ${streamId}`,
       };
     } catch (error) {
       return {
@@ -331,10 +393,17 @@ export class CambrianMemoryTool {
     return embedding;
   }
 
+  private getStreamId(params: { userId?: string; agentId?: string }): string {
+    return this.resolveStream({
+      user_id: params.userId,
+      agent_id: params.agentId,
+      app_id: this.config.appId,
+    });
+  }
+
   private async uploadToIPFS(document: any): Promise<string> {
-    // Simplified IPFS upload - in production, use actual IPFS client
     console.log("Uploading to IPFS:", document.id);
-    return `Qm${this.simpleHash(JSON.stringify(document)).toString(36).padEnd(44, "0")}`;
+    return this.pinning.add(document, { name: `mem0-${document.id}` });
   }
 
   private async appendToRegistry(
@@ -343,63 +412,158 @@ export class CambrianMemoryTool {
     merkleRoot: string,
     metadata: string,
   ): Promise<string> {
-    // Simplified contract call - in production, use ethers.js
+    const signer = this.requireSigner("append memories");
+    const registry = connectMemoryRegistry(this.config.registry, signer);
+
+    // The first memory in a stream registers it to the signer
+    if (!(await registry.streamExists(streamId))) {
+      try {
+        console.log(`Registering stream: ${streamId}`);
+        const registerTx = await registry.registerStream(
+          streamId,
+          await signer.getAddress(),
+          "default",
+        );
+        await registerTx.wait();
+      } catch (error) {
+        // Someone else registered it since we checked
+        if (getRevertReason(error) !== "Stream already exists") {
+          throw error;
+        }
+      }
+    }
+
     console.log(`Appending to registry: stream=${streamId}, cid=${cid}`);
-    return `0x${this.simpleHash(`${streamId}${cid}`).toString(16).padStart(64, "0")}`;
+    const tx = await registry.append(streamId, cid, merkleRoot, metadata);
+    await tx.wait();
+    return tx.hash;
   }
 
+  /**
+   * Rank every memory in the stream's on-chain history by similarity to the
+   * query. Each result carries its proof against the index root the indexer
+   * computes over the same history.
+   */
   private async searchIndex(
     embedding: number[],
     streamId: string,
     k: number,
   ): Promise<any[]> {
-    // Simplified search - in production, use actual vector search
-    return Array.from({ length: Math.min(k, 3) }, (_, i) => ({
-      cid: `Qm${i.toString().padEnd(44, "0")}`,
-      score: 0.8 - i * 0.1,
-    }));
+    const cids: string[] = await this.getRegistry().getStreamHistory(streamId);
+    const leaves = cids.map(cidLeaf);
+
+    const results = [];
+    for (let i = 0; i < cids.length; i++) {
+      const document = await this.fetchFromIPFS(cids[i]);
+      if (!Array.isArray(document?.embedding)) continue;
+      results.push({
+        cid: cids[i],
+        score: this.cosineSimilarity(embedding, document.embedding),
+        proof: getMerkleProof(leaves, i),
+        document,
+      });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
   }
 
-  private async verifyResult(result: any): Promise<boolean> {
-    // Simplified verification - in production, verify Merkle proof
-    console.log("Verifying result:", result.cid);
-    return true;
+  private async verifyResult(result: any, streamId: string): Promise<boolean> {
+    // Results without an inclusion proof can't be checked against the chain
+    if (!Array.isArray(result.proof)) {
+      return false;
+    }
+
+    try {
+      const indexRoot: string = await this.getRegistry().getIndexRoot(streamId);
+      return verifyProof(cidLeaf(result.cid), result.proof, indexRoot);
+    } catch (error) {
+      console.error(`Error verifying result ${result.cid}:`, error);
+      return false;
+    }
   }
 
   private async fetchFromIPFS(cid: string): Promise<any> {
-    // Simplified IPFS fetch - in production, use actual IPFS gateway
-    return {
-      content: `Mock content for ${cid}`,
-      metadata: { timestamp: Date.now() },
-    };
+    try {
+      return await this.pinning.get(cid);
+    } catch (error) {
+      console.error(`Error fetching from IPFS (${cid}):`, error);
+      return null;
+    }
   }
 
   private async grantAccess(
     streamId: string,
     address: string,
+    capability: string,
     role: string,
   ): Promise<string> {
-    // Simplified contract call - in production, use ethers.js
-    console.log(`Granting ${role} to ${address} for stream ${streamId}`);
-    return `0x${this.simpleHash(`grant${streamId}${address}`).toString(16).padStart(64, "0")}`;
+    const roleValue = AccessRole[role as keyof typeof AccessRole];
+    if (roleValue === undefined) {
+      throw new ConfigurationError(`Unknown role: ${role}`);
+    }
+
+    console.log(`Granting ${capability} to ${address} for stream ${streamId}`);
+    const tx = await this.getAccessContract().authorize(
+      streamId,
+      address,
+      capability,
+      roleValue,
+    );
+    await tx.wait();
+    return tx.hash;
   }
 
   private async revokeAccess(
     streamId: string,
     address: string,
+    capability: string,
   ): Promise<string> {
-    // Simplified contract call - in production, use ethers.js
-    console.log(`Revoking access for ${address} from stream ${streamId}`);
-    return `0x${this.simpleHash(`revoke${streamId}${address}`).toString(16).padStart(64, "0")}`;
+    console.log(
+      `Revoking ${capability} for ${address} from stream ${streamId}`,
+    );
+    const tx = await this.getAccessContract().revoke(
+      streamId,
+      address,
+      capability,
+    );
+    await tx.wait();
+    return tx.hash;
   }
 
-  private computeMerkleLeaf(
-    cid: string,
-    embedding: number[],
-    timestamp: number,
-  ): string {
-    const data = `${cid}${embedding.slice(0, 5).join("")}${timestamp}`;
-    return `0x${this.simpleHash(data).toString(16).padStart(64, "0")}`;
+  private getAccessContract() {
+    return connectMemoryAccess(
+      this.config.access,
+      this.requireSigner("change stream access"),
+    );
+  }
+
+  private getRegistry() {
+    return connectMemoryRegistry(
+      this.config.registry,
+      new ethers.providers.JsonRpcProvider(this.config.seiRpcUrl),
+    );
+  }
+
+  private requireSigner(action: string) {
+    if (!this.config.signer) {
+      throw new ConfigurationError(`A signer is required to ${action}`);
+    }
+    return this.config.signer;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+
+  private computeMerkleLeaf(cid: string): string {
+    return cidLeaf(cid);
   }
 
   private generateId(): string {
@@ -14,4 +14,14 @@ export * from "./vector_stores/memory";
 export * from "./vector_stores/qdrant";
 export * from "./vector_stores/sei_indexer";
 export * from "./storage/IPFSStorageManager";
+export * from "./pinning/base";
+export * from "./pinning/pinata";
+export * from "./pinning/web3storage";
+export * from "./pinning/kubo";
+export * from "./pinning/memory";
 export * from "./utils/factory";
+export * from "./utils/merkle";
+export * from "./utils/cid";
+export * from "./utils/errors";
+export * from "./utils/stream";
+export * from "./contracts";
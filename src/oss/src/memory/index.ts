@@ -24,10 +24,20 @@ import {
   SearchMemoryOptions,
   DeleteAllMemoryOptions,
   GetAllMemoryOptions,
+  ImportMemoryOptions,
 } from "./memory.types";
 import { parse_vision_messages } from "../utils/memory";
 import { HistoryManager } from "../storage/base";
 import { captureClientEvent } from "../utils/telemetry";
+import {
+  ConfigurationError,
+  EmbeddingError,
+  LLMError,
+  MemoryNotFoundError,
+  Seim0Error,
+  ValidationError,
+  VectorStoreError,
+} from "../utils/errors";
 import {
   getFactRetrievalMessages,
   getUpdateMemoryMessages,
@@ -152,13 +162,55 @@ export class Memory {
     }
   }
 
+  private async _embed(text: string): Promise<number[]> {
+    try {
+      return await this.embedder.embed(text);
+    } catch (error) {
+      throw new EmbeddingError(
+        `Failed to embed text with ${this.config.embedder.provider}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private async _generateResponse(
+    messages: Array<{ role: string; content: string }>,
+    responseFormat?: { type: string }
+  ): Promise<any> {
+    try {
+      return await this.llm.generateResponse(messages, responseFormat);
+    } catch (error) {
+      throw new LLMError(
+        `Failed to generate a response with ${this.config.llm.provider}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private async _vectorStore<T>(
+    operation: string,
+    call: Promise<T>
+  ): Promise<T> {
+    try {
+      return await call;
+    } catch (error) {
+      throw error instanceof Seim0Error
+        ? error
+        : new VectorStoreError(`Vector store ${operation} failed`, {
+            cause: error,
+          });
+    }
+  }
+
   static fromConfig(configDict: Record<string, any>): Memory {
     try {
       const config = MemoryConfigSchema.parse(configDict);
       return new Memory(config);
     } catch (e) {
       console.error("Configuration validation error:", e);
-      throw e;
+      throw new ConfigurationError("Invalid memory configuration", {
+        cause: e,
+      });
     }
   }
 
@@ -201,7 +253,7 @@ export class Memory {
     if (runId) filters.runId = metadata.runId = runId;
 
     if (!filters.userId && !filters.agentId && !filters.runId) {
-      throw new Error(
+      throw new ValidationError(
         "One of the filters: userId, agentId or runId is required!"
       );
     }
@@ -273,7 +325,7 @@ export class Memory {
       : getFactRetrievalMessages(parsedMessages);
 
     console.log("Extracting facts with enhanced prompts...");
-    const response = await this.llm.generateResponse(
+    const response = await this._generateResponse(
       [
         { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt },
@@ -296,13 +348,12 @@ export class Memory {
 
     // Create embeddings and search for similar memories
     for (const fact of facts) {
-      const embedding = await this.embedder.embed(fact);
+      const embedding = await this._embed(fact);
       newMessageEmbeddings[fact] = embedding;
 
-      const existingMemories = await this.vectorStore.search(
-        embedding,
-        5,
-        filters
+      const existingMemories = await this._vectorStore(
+        "search",
+        this.vectorStore.search(embedding, 5, filters)
       );
       for (const mem of existingMemories) {
         retrievedOldMemory.push({ id: mem.id, text: mem.payload.data });
@@ -328,7 +379,7 @@ export class Memory {
     const updatePrompt = getUpdateMemoryMessages(uniqueOldMemories, facts);
 
     console.log("Getting memory management decisions...");
-    const updateResponse = await this.llm.generateResponse(
+    const updateResponse = await this._generateResponse(
       [{ role: "user", content: updatePrompt }],
       { type: "json_object" }
     );
@@ -412,7 +463,10 @@ export class Memory {
   }
 
   async get(memoryId: string): Promise<MemoryItem | null> {
-    const memory = await this.vectorStore.get(memoryId);
+    const memory = await this._vectorStore(
+      "get",
+      this.vectorStore.get(memoryId)
+    );
     if (!memory) return null;
 
     const filters = {
@@ -478,17 +532,16 @@ export class Memory {
     if (runId) filters.runId = runId;
 
     if (!filters.userId && !filters.agentId && !filters.runId) {
-      throw new Error(
+      throw new ValidationError(
         "One of the filters: userId, agentId or runId is required!"
       );
     }
 
     // Search vector store
-    const queryEmbedding = await this.embedder.embed(query);
-    const memories = await this.vectorStore.search(
-      queryEmbedding,
-      limit,
-      filters
+    const queryEmbedding = await this._embed(query);
+    const memories = await this._vectorStore(
+      "search",
+      this.vectorStore.search(queryEmbedding, limit, filters)
     );
 
     // Search graph store if available
@@ -533,11 +586,45 @@ export class Memory {
 
   async update(memoryId: string, data: string): Promise<{ message: string }> {
     await this._captureEvent("update", { memory_id: memoryId });
-    const embedding = await this.embedder.embed(data);
+    const embedding = await this._embed(data);
     await this.updateMemory(memoryId, data, { [data]: embedding });
     return { message: "Memory updated successfully!" };
   }
 
+  /**
+   * Store a fact under a known ID without running extraction, e.g. when
+   * rebuilding the index from on-chain documents. Existing IDs are updated.
+   */
+  async importMemory(
+    memoryId: string,
+    data: string,
+    config: ImportMemoryOptions
+  ): Promise<{ message: string }> {
+    await this._captureEvent("import", { memory_id: memoryId });
+    const { userId, agentId, runId, metadata = {} } = config;
+
+    if (userId) metadata.userId = userId;
+    if (agentId) metadata.agentId = agentId;
+    if (runId) metadata.runId = runId;
+
+    if (!metadata.userId && !metadata.agentId && !metadata.runId) {
+      throw new ValidationError(
+        "One of the filters: userId, agentId or runId is required!"
+      );
+    }
+
+    const existingMemory = await this._vectorStore(
+      "get",
+      this.vectorStore.get(memoryId)
+    );
+    if (existingMemory) {
+      await this.updateMemory(memoryId, data, {}, metadata);
+    } else {
+      await this.createMemory(data, {}, metadata, memoryId);
+    }
+    return { message: "Memory imported successfully!" };
+  }
+
   async delete(memoryId: string): Promise<{ message: string }> {
     await this._captureEvent("delete", { memory_id: memoryId });
     await this.deleteMemory(memoryId);
@@ -560,12 +647,15 @@ export class Memory {
     if (runId) filters.runId = runId;
 
     if (!Object.keys(filters).length) {
-      throw new Error(
+      throw new ValidationError(
         "At least one filter is required to delete all memories. If you want to delete all memories, use the `reset()` method."
       );
     }
 
-    const [memories] = await this.vectorStore.list(filters);
+    const [memories] = await this._vectorStore(
+      "list",
+      this.vectorStore.list(filters)
+    );
     for (const memory of memories) {
       await this.deleteMemory(memory.id);
     }
@@ -637,7 +727,10 @@ export class Memory {
     if (agentId) filters.agentId = agentId;
     if (runId) filters.runId = runId;
 
-    const [memories] = await this.vectorStore.list(filters, limit);
+    const [memories] = await this._vectorStore(
+      "list",
+      this.vectorStore.list(filters, limit)
+    );
 
     const excludedKeys = new Set([
       "userId",
@@ -668,11 +761,10 @@ export class Memory {
   private async createMemory(
     data: string,
     existingEmbeddings: Record<string, number[]>,
-    metadata: Record<string, any>
+    metadata: Record<string, any>,
+    memoryId: string = uuidv4()
   ): Promise<string> {
-    const memoryId = uuidv4();
-    const embedding =
-      existingEmbeddings[data] || (await this.embedder.embed(data));
+    const embedding = existingEmbeddings[data] || (await this._embed(data));
 
     const memoryMetadata = {
       ...metadata,
@@ -681,7 +773,10 @@ export class Memory {
       createdAt: new Date().toISOString(),
     };
 
-    await this.vectorStore.insert([embedding], [memoryId], [memoryMetadata]);
+    await this._vectorStore(
+      "insert",
+      this.vectorStore.insert([embedding], [memoryId], [memoryMetadata])
+    );
     await this.db.addHistory(
       memoryId,
       null,
@@ -699,14 +794,16 @@ export class Memory {
     existingEmbeddings: Record<string, number[]>,
     metadata: Record<string, any> = {}
   ): Promise<string> {
-    const existingMemory = await this.vectorStore.get(memoryId);
+    const existingMemory = await this._vectorStore(
+      "get",
+      this.vectorStore.get(memoryId)
+    );
     if (!existingMemory) {
-      throw new Error(`Memory with ID ${memoryId} not found`);
+      throw new MemoryNotFoundError(`Memory with ID ${memoryId} not found`);
     }
 
     const prevValue = existingMemory.payload.data;
-    const embedding =
-      existingEmbeddings[data] || (await this.embedder.embed(data));
+    const embedding = existingEmbeddings[data] || (await this._embed(data));
 
     const newMetadata = {
       ...metadata,
@@ -725,7 +822,10 @@ export class Memory {
       }),
     };
 
-    await this.vectorStore.update(memoryId, embedding, newMetadata);
+    await this._vectorStore(
+      "update",
+      this.vectorStore.update(memoryId, embedding, newMetadata)
+    );
     await this.db.addHistory(
       memoryId,
       prevValue,
@@ -739,13 +839,16 @@ export class Memory {
   }
 
   private async deleteMemory(memoryId: string): Promise<string> {
-    const existingMemory = await this.vectorStore.get(memoryId);
+    const existingMemory = await this._vectorStore(
+      "get",
+      this.vectorStore.get(memoryId)
+    );
     if (!existingMemory) {
-      throw new Error(`Memory with ID ${memoryId} not found`);
+      throw new MemoryNotFoundError(`Memory with ID ${memoryId} not found`);
     }
 
     const prevValue = existingMemory.payload.data;
-    await this.vectorStore.delete(memoryId);
+    await this._vectorStore("delete", this.vectorStore.delete(memoryId));
     await this.db.addHistory(
       memoryId,
       prevValue,
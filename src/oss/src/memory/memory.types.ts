@@ -23,3 +23,7 @@ export interface GetAllMemoryOptions extends Entity {
 }
 
 export interface DeleteAllMemoryOptions extends Entity {}
+
+export interface ImportMemoryOptions extends Entity {
+  metadata?: Record<string, any>;
+}
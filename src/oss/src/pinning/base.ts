@@ -0,0 +1,32 @@
+export interface PinOptions {
+  name?: string; // Human-readable label, where the backend supports one
+  keyvalues?: Record<string, string>; // Extra metadata, where the backend supports it
+}
+
+export interface PinningService {
+  /** Upload a JSON document and return its CID */
+  add(document: any, options?: PinOptions): Promise<string>;
+  /** Fetch and parse the JSON document behind a CID */
+  get(cid: string): Promise<any>;
+  /** Pin content that is already on the network */
+  pin(cid: string): Promise<void>;
+}
+
+/**
+ * Build a gateway URL, accepting gateways configured with or without `/ipfs/`
+ */
+export function gatewayUrl(gateway: string, cid: string): string {
+  const base = gateway.replace(/\/+$/, "");
+  return base.endsWith("/ipfs") ? `${base}/${cid}` : `${base}/ipfs/${cid}`;
+}
+
+export async function fetchFromGateway(
+  gateway: string,
+  cid: string,
+): Promise<any> {
+  const response = await fetch(gatewayUrl(gateway, cid));
+  if (!response.ok) {
+    throw new Error(`IPFS fetch failed: ${response.statusText}`);
+  }
+  return response.json();
+}
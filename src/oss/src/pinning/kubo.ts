@@ -0,0 +1,67 @@
+import { PinningService } from "./base";
+import { PinningConfig } from "../types";
+import { computeCid, encodeDagJson, isDagJsonCid } from "../utils/cid";
+
+/**
+ * Pins to a Kubo (go-ipfs) node through its RPC API, e.g. a local daemon.
+ * Documents are stored as dag-json blocks, so their CIDs are the ones
+ * computeCid and MemoryPinningService give.
+ */
+export class KuboPinningService implements PinningService {
+  private apiUrl: string;
+  private apiKey?: string;
+
+  constructor(config: PinningConfig) {
+    this.apiUrl = (config.apiUrl || "http://127.0.0.1:5001").replace(
+      /\/+$/,
+      "",
+    );
+    this.apiKey = config.apiKey;
+  }
+
+  async add(document: any): Promise<string> {
+    const formData = new FormData();
+    formData.append("file", new Blob([encodeDagJson(document)]));
+
+    const response = await this.request(
+      "dag/put?store-codec=dag-json&input-codec=dag-json&pin=true",
+      formData,
+    );
+    const result = (await response.json()) as { Cid: { "/": string } };
+    const cid = result.Cid["/"];
+    const expected = computeCid(document);
+    if (cid !== expected) {
+      throw new Error(
+        `Kubo stored the document as ${cid}, expected ${expected}`,
+      );
+    }
+    return cid;
+  }
+
+  async get(cid: string): Promise<any> {
+    // Documents added before dag-json blocks were used are UnixFS files
+    const command = isDagJsonCid(cid) ? "block/get" : "cat";
+    const response = await this.request(
+      `${command}?arg=${encodeURIComponent(cid)}`,
+    );
+    return response.json();
+  }
+
+  async pin(cid: string): Promise<void> {
+    await this.request(`pin/add?arg=${encodeURIComponent(cid)}`);
+  }
+
+  // The RPC API only accepts POST, even for reads
+  private async request(path: string, body?: FormData): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}/api/v0/${path}`, {
+      method: "POST",
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Kubo request failed: ${response.statusText}`);
+    }
+    return response;
+  }
+}
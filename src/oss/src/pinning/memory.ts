@@ -0,0 +1,46 @@
+import { PinningService, fetchFromGateway } from "./base";
+import { PinningConfig } from "../types";
+import { computeCid, encodeDagJson } from "../utils/cid";
+
+/**
+ * In-process, content-addressed store. CIDs are dag-json CIDv1s, the ones
+ * `ipfs dag put --store-codec dag-json` gives and KuboPinningService stores
+ * documents under. Pinata and web3.storage upload files, whose UnixFS CIDs
+ * differ. CIDs it doesn't hold are read through `gateway`, when one is
+ * configured.
+ */
+export class MemoryPinningService implements PinningService {
+  private blocks: Map<string, Buffer> = new Map();
+  private gateway?: string;
+
+  constructor(config: PinningConfig = {}) {
+    this.gateway = config.gateway;
+  }
+
+  async add(document: any): Promise<string> {
+    const cid = computeCid(document);
+    this.blocks.set(cid, encodeDagJson(document));
+    return cid;
+  }
+
+  async get(cid: string): Promise<any> {
+    const block = this.blocks.get(cid);
+    if (block) {
+      return JSON.parse(block.toString("utf8"));
+    }
+    if (this.gateway) {
+      return fetchFromGateway(this.gateway, cid);
+    }
+    throw new Error(`CID not found in local store: ${cid}`);
+  }
+
+  async pin(cid: string): Promise<void> {
+    if (!this.blocks.has(cid)) {
+      throw new Error(`CID not found in local store: ${cid}`);
+    }
+  }
+
+  has(cid: string): boolean {
+    return this.blocks.has(cid);
+  }
+}
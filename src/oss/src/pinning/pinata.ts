@@ -0,0 +1,56 @@
+import { PinOptions, PinningService, fetchFromGateway } from "./base";
+import { PinningConfig } from "../types";
+
+export class PinataPinningService implements PinningService {
+  private apiKey: string;
+  private secretKey: string;
+  private gateway: string;
+
+  constructor(config: PinningConfig) {
+    if (!config.pinataApiKey || !config.pinataSecretKey) {
+      throw new Error("Pinata requires pinataApiKey and pinataSecretKey");
+    }
+    this.apiKey = config.pinataApiKey;
+    this.secretKey = config.pinataSecretKey;
+    this.gateway = config.gateway || "https://gateway.pinata.cloud/ipfs/";
+  }
+
+  async add(document: any, options: PinOptions = {}): Promise<string> {
+    const result = await this.request("pinning/pinJSONToIPFS", {
+      pinataContent: document,
+      pinataMetadata: {
+        name: options.name,
+        keyvalues: options.keyvalues,
+      },
+    });
+    return result.IpfsHash;
+  }
+
+  async get(cid: string): Promise<any> {
+    return fetchFromGateway(this.gateway, cid);
+  }
+
+  async pin(cid: string): Promise<void> {
+    await this.request("pinning/pinByHash", {
+      hashToPin: cid,
+      pinataMetadata: { name: `mem0-pin-${cid}` },
+    });
+  }
+
+  private async request(path: string, body: any): Promise<any> {
+    const response = await fetch(`https://api.pinata.cloud/${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        pinata_api_key: this.apiKey,
+        pinata_secret_api_key: this.secretKey,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Pinata request failed: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
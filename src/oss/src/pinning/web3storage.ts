@@ -0,0 +1,49 @@
+import { PinOptions, PinningService, fetchFromGateway } from "./base";
+import { PinningConfig } from "../types";
+
+export class Web3StoragePinningService implements PinningService {
+  private apiUrl: string;
+  private apiKey: string;
+  private gateway: string;
+
+  constructor(config: PinningConfig) {
+    if (!config.apiKey) {
+      throw new Error("web3.storage requires an apiKey");
+    }
+    this.apiUrl = config.apiUrl || "https://api.web3.storage";
+    this.apiKey = config.apiKey;
+    this.gateway = config.gateway || "https://w3s.link/ipfs/";
+  }
+
+  async add(document: any, options: PinOptions = {}): Promise<string> {
+    const formData = new FormData();
+    const blob = new Blob([JSON.stringify(document)], {
+      type: "application/json",
+    });
+    formData.append("file", blob, `${options.name || "document"}.json`);
+
+    const response = await fetch(`${this.apiUrl}/upload`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Web3.Storage upload failed: ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as { cid: string };
+    return result.cid;
+  }
+
+  async get(cid: string): Promise<any> {
+    return fetchFromGateway(this.gateway, cid);
+  }
+
+  async pin(cid: string): Promise<void> {
+    // Uploads are pinned by web3.storage itself, it can't pin foreign CIDs
+    throw new Error(`web3.storage cannot pin existing content (${cid})`);
+  }
+}
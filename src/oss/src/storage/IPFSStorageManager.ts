@@ -1,11 +1,11 @@
 import { HistoryManager } from "./base";
+import { PinningService } from "../pinning/base";
+import { PinningConfig } from "../types";
+import { PinningServiceFactory } from "../utils/factory";
 
-export interface IPFSConfig {
+export interface IPFSConfig extends PinningConfig {
   gateway: string;
-  apiUrl?: string;
-  apiKey?: string;
-  pinataApiKey?: string;
-  pinataSecretKey?: string;
+  pinning?: PinningService; // Overrides the service picked from credentials
 }
 
 export interface IPFSDocument {
@@ -22,9 +22,11 @@ export interface IPFSDocument {
  */
 export class IPFSStorageManager implements HistoryManager {
   private config: IPFSConfig;
+  private pinning: PinningService;
 
   constructor(config: IPFSConfig) {
     this.config = config;
+    this.pinning = config.pinning || PinningServiceFactory.fromConfig(config);
   }
 
   async init(): Promise<void> {
@@ -57,13 +59,7 @@ export class IPFSStorageManager implements HistoryManager {
 
   async getMemory(cid: string): Promise<IPFSDocument | null> {
     try {
-      const response = await fetch(`${this.config.gateway}/ipfs/${cid}`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch from IPFS: ${response.statusText}`);
-      }
-
-      const document = (await response.json()) as IPFSDocument;
-      return document;
+      return (await this.pinning.get(cid)) as IPFSDocument;
     } catch (error) {
       console.error(`Error fetching memory from IPFS (CID: ${cid}):`, error);
       return null;
@@ -102,128 +98,21 @@ export class IPFSStorageManager implements HistoryManager {
 
   private async uploadToIPFS(document: IPFSDocument): Promise<string> {
     try {
-      if (this.config.pinataApiKey && this.config.pinataSecretKey) {
-        return await this.uploadToPinata(document);
-      } else if (this.config.apiUrl && this.config.apiKey) {
-        return await this.uploadToWeb3Storage(document);
-      } else {
-        return await this.uploadToPublicGateway(document);
-      }
+      return await this.pinning.add(document, {
+        name: `mem0-${document.id}`,
+        keyvalues: {
+          sessionId: document.metadata.sessionId,
+          timestamp: document.timestamp.toString(),
+        },
+      });
     } catch (error) {
       console.error("Error uploading to IPFS:", error);
       throw error;
     }
   }
 
-  private async uploadToPinata(document: IPFSDocument): Promise<string> {
-    const url = "https://api.pinata.cloud/pinning/pinJSONToIPFS";
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        pinata_api_key: this.config.pinataApiKey!,
-        pinata_secret_api_key: this.config.pinataSecretKey!,
-      },
-      body: JSON.stringify({
-        pinataContent: document,
-        pinataMetadata: {
-          name: `mem0-${document.id}`,
-          keyvalues: {
-            sessionId: document.metadata.sessionId,
-            timestamp: document.timestamp.toString(),
-          },
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Pinata upload failed: ${response.statusText}`);
-    }
-
-    const result = (await response.json()) as { IpfsHash: string };
-    return result.IpfsHash;
-  }
-
-  private async uploadToWeb3Storage(document: IPFSDocument): Promise<string> {
-    const url = `${this.config.apiUrl}/upload`;
-
-    const formData = new FormData();
-    const blob = new Blob([JSON.stringify(document)], {
-      type: "application/json",
-    });
-    formData.append("file", blob, `mem0-${document.id}.json`);
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Web3.Storage upload failed: ${response.statusText}`);
-    }
-
-    const result = (await response.json()) as { cid: string };
-    return result.cid;
-  }
-
-  private async uploadToPublicGateway(document: IPFSDocument): Promise<string> {
-    // For development/testing - simulate IPFS upload
-    // In production, this would connect to a local IPFS node
-    const mockCid = this.generateMockCID(document);
-    console.warn(`Using mock CID for development: ${mockCid}`);
-    return mockCid;
-  }
-
-  private generateMockCID(document: IPFSDocument): string {
-    // Generate a deterministic mock CID based on content
-    const content = JSON.stringify(document);
-    const hash = this.simpleHash(content);
-    return `Qm${hash.padEnd(44, "0")}`;
-  }
-
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(36);
-  }
-
   async pinCID(cid: string): Promise<void> {
-    if (this.config.pinataApiKey && this.config.pinataSecretKey) {
-      await this.pinWithPinata(cid);
-    } else {
-      console.log(`Pinning CID: ${cid} (mock)`);
-    }
-  }
-
-  private async pinWithPinata(cid: string): Promise<void> {
-    const url = "https://api.pinata.cloud/pinning/pinByHash";
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        pinata_api_key: this.config.pinataApiKey!,
-        pinata_secret_api_key: this.config.pinataSecretKey!,
-      },
-      body: JSON.stringify({
-        hashToPin: cid,
-        pinataMetadata: {
-          name: `mem0-pin-${cid}`,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Pinata pin failed: ${response.statusText}`);
-    }
+    await this.pinning.pin(cid);
   }
 
   // HistoryManager interface methods
@@ -43,6 +43,14 @@ export interface HistoryStoreConfig {
   };
 }
 
+export interface PinningConfig {
+  gateway?: string;
+  apiUrl?: string; // web3.storage API or Kubo RPC endpoint
+  apiKey?: string;
+  pinataApiKey?: string;
+  pinataSecretKey?: string;
+}
+
 export interface LLMConfig {
   provider?: string;
   baseURL?: string;
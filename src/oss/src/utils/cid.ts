@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+
+const CID_VERSION = 1;
+const DAG_JSON_CODEC = 0x0129;
+const SHA2_256_CODE = 0x12;
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function toDagJson(value: any): string {
+  if (value === null) return "null";
+  if (typeof value?.toJSON === "function") return toDagJson(value.toJSON());
+
+  switch (typeof value) {
+    case "boolean":
+    case "string":
+      return JSON.stringify(value);
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new Error(`DAG-JSON cannot encode ${value}`);
+      }
+      return JSON.stringify(value);
+    case "object":
+      if (Array.isArray(value)) {
+        return `[${value.map((item) => (item === undefined ? "null" : toDagJson(item))).join(",")}]`;
+      }
+      // Map keys are sorted by their UTF-8 bytes, undefined values dropped
+      return `{${Object.keys(value)
+        .filter((key) => value[key] !== undefined)
+        .sort((a, b) => Buffer.compare(Buffer.from(a), Buffer.from(b)))
+        .map((key) => `${JSON.stringify(key)}:${toDagJson(value[key])}`)
+        .join(",")}}`;
+    default:
+      throw new Error(`DAG-JSON cannot encode a ${typeof value}`);
+  }
+}
+
+/**
+ * Canonical DAG-JSON bytes of a JSON value, the block a dag-json CID addresses
+ */
+export function encodeDagJson(value: any): Buffer {
+  return Buffer.from(toDagJson(value), "utf8");
+}
+
+// Version, codec and multihash header; 5 bytes encode to exactly 8 base32 characters
+const DAG_JSON_CID_HEADER = [
+  ...encodeVarint(CID_VERSION),
+  ...encodeVarint(DAG_JSON_CODEC),
+  SHA2_256_CODE,
+  32,
+];
+const DAG_JSON_CID_PREFIX = `b${encodeBase32(Uint8Array.from(DAG_JSON_CID_HEADER))}`;
+
+/**
+ * CIDv1 (dag-json, sha2-256) in base32, the same CID
+ * `ipfs dag put --store-codec dag-json` produces for this value
+ */
+export function computeCid(value: any): string {
+  const digest = createHash("sha256").update(encodeDagJson(value)).digest();
+  const bytes = Uint8Array.from([...DAG_JSON_CID_HEADER, ...digest]);
+  return `b${encodeBase32(bytes)}`;
+}
+
+/**
+ * Whether `cid` addresses a dag-json block as computeCid makes them, rather
+ * than e.g. a UnixFS file
+ */
+export function isDagJsonCid(cid: string): boolean {
+  return cid.startsWith(DAG_JSON_CID_PREFIX);
+}
@@ -0,0 +1,230 @@
+export type Seim0ErrorCode =
+  | "CONFIGURATION"
+  | "VALIDATION"
+  | "NOT_FOUND"
+  | "LLM"
+  | "EMBEDDING"
+  | "VECTOR_STORE"
+  | "IPFS_UPLOAD"
+  | "IPFS_FETCH"
+  | "INDEX_QUERY"
+  | "CHAIN_TX"
+  | "ACCESS_DENIED"
+  | "INSUFFICIENT_BALANCE"
+  | "UNKNOWN";
+
+export interface Seim0ErrorOptions {
+  cause?: unknown;
+  retryable?: boolean; // Overrides what is inferred from the cause
+}
+
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+  "NETWORK_ERROR", // ethers
+  "SERVER_ERROR", // ethers
+  "TIMEOUT", // ethers
+]);
+
+/**
+ * Whether a cause looks transient (rate limits, 5xx, dropped connections),
+ * or undefined when it carries nothing to judge by
+ */
+function isTransient(cause: any): boolean | undefined {
+  if (!cause || typeof cause !== "object") return undefined;
+
+  const status = cause.status ?? cause.statusCode ?? cause.response?.status;
+  if (typeof status === "number") {
+    return TRANSIENT_STATUSES.has(status);
+  }
+
+  const code = cause.code ?? cause.cause?.code;
+  if (typeof code === "string" && TRANSIENT_CODES.has(code)) {
+    return true;
+  }
+  return undefined;
+}
+
+/**
+ * Base class for every error seim0 throws. `code` and `retryable` let callers
+ * decide what to do without parsing messages; `cause` keeps the original error.
+ */
+export class Seim0Error extends Error {
+  readonly code: Seim0ErrorCode;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    options: Seim0ErrorOptions = {},
+    code: Seim0ErrorCode = "UNKNOWN",
+    retryableByDefault: boolean = false,
+  ) {
+    super(message);
+    this.name = "Seim0Error";
+    this.code = code;
+    this.cause = options.cause;
+    this.retryable =
+      options.retryable ?? isTransient(options.cause) ?? retryableByDefault;
+  }
+}
+
+export class ConfigurationError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, { ...options, retryable: false }, "CONFIGURATION");
+    this.name = "ConfigurationError";
+  }
+}
+
+export class ValidationError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, { ...options, retryable: false }, "VALIDATION");
+    this.name = "ValidationError";
+  }
+}
+
+export class MemoryNotFoundError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, { ...options, retryable: false }, "NOT_FOUND");
+    this.name = "MemoryNotFoundError";
+  }
+}
+
+export class LLMError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, options, "LLM", true);
+    this.name = "LLMError";
+  }
+}
+
+export class EmbeddingError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, options, "EMBEDDING", true);
+    this.name = "EmbeddingError";
+  }
+}
+
+export class VectorStoreError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, options, "VECTOR_STORE");
+    this.name = "VectorStoreError";
+  }
+}
+
+export class IpfsUploadError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, options, "IPFS_UPLOAD", true);
+    this.name = "IpfsUploadError";
+  }
+}
+
+export class IpfsFetchError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, options, "IPFS_FETCH", true);
+    this.name = "IpfsFetchError";
+  }
+}
+
+export class IndexQueryError extends Seim0Error {
+  constructor(message: string, options: Seim0ErrorOptions = {}) {
+    super(message, options, "INDEX_QUERY", true);
+    this.name = "IndexQueryError";
+  }
+}
+
+export interface ChainErrorOptions extends Seim0ErrorOptions {
+  reason?: string; // Revert reason, when the transaction reverted
+}
+
+export class ChainTxError extends Seim0Error {
+  readonly reason?: string;
+
+  constructor(message: string, options: ChainErrorOptions = {}) {
+    // A revert fails the same way on every attempt
+    super(
+      message,
+      {
+        ...options,
+        retryable: options.retryable ?? (options.reason ? false : undefined),
+      },
+      "CHAIN_TX",
+      true,
+    );
+    this.name = "ChainTxError";
+    this.reason = options.reason;
+  }
+}
+
+export class AccessDeniedError extends Seim0Error {
+  readonly reason?: string;
+
+  constructor(message: string, options: ChainErrorOptions = {}) {
+    super(message, { ...options, retryable: false }, "ACCESS_DENIED");
+    this.name = "AccessDeniedError";
+    this.reason = options.reason;
+  }
+}
+
+export class InsufficientBalanceError extends Seim0Error {
+  readonly reason?: string;
+
+  constructor(message: string, options: ChainErrorOptions = {}) {
+    super(message, { ...options, retryable: false }, "INSUFFICIENT_BALANCE");
+    this.name = "InsufficientBalanceError";
+    this.reason = options.reason;
+  }
+}
+
+/**
+ * Dig the revert reason out of an ethers v5 error, wherever the provider put it
+ */
+export function getRevertReason(error: any): string | undefined {
+  if (typeof error?.errorArgs?.[0] === "string") {
+    return error.errorArgs[0];
+  }
+
+  const messages = [
+    error?.reason,
+    error?.error?.reason,
+    error?.error?.message,
+    error?.error?.error?.message,
+    error?.error?.body,
+    error?.message,
+  ];
+  for (const message of messages) {
+    if (typeof message !== "string") continue;
+    const match =
+      message.match(/reverted with reason string '([^']*)'/) ||
+      message.match(/execution reverted: ([^"\\\n]*)/);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a failed contract call to AccessDeniedError, InsufficientBalanceError
+ * or ChainTxError based on its revert reason
+ */
+export function toChainError(message: string, error: unknown): Seim0Error {
+  if (error instanceof Seim0Error) {
+    return error;
+  }
+
+  const reason = getRevertReason(error);
+  const options = { cause: error, reason };
+  if (reason && /^Not (authorized|stream owner)/.test(reason)) {
+    return new AccessDeniedError(`${message}: ${reason}`, options);
+  }
+  if (reason && /^(Insufficient balance|No earnings)/.test(reason)) {
+    return new InsufficientBalanceError(`${message}: ${reason}`, options);
+  }
+  return new ChainTxError(reason ? `${message}: ${reason}` : message, options);
+}
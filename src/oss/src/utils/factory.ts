@@ -8,6 +8,7 @@ import {
   EmbeddingConfig,
   HistoryStoreConfig,
   LLMConfig,
+  PinningConfig,
   VectorStoreConfig,
 } from "../types";
 import { Embedder } from "../embeddings/base";
@@ -17,6 +18,12 @@ import { Qdrant } from "../vector_stores/qdrant";
 import { OllamaLLM } from "../llms/ollama";
 import { SQLiteManager } from "../storage/SQLiteManager";
 import { HistoryManager } from "../storage/base";
+import { ConfigurationError } from "./errors";
+import { PinningService } from "../pinning/base";
+import { PinataPinningService } from "../pinning/pinata";
+import { Web3StoragePinningService } from "../pinning/web3storage";
+import { KuboPinningService } from "../pinning/kubo";
+import { MemoryPinningService } from "../pinning/memory";
 
 export class EmbedderFactory {
   static create(provider: string, config: EmbeddingConfig): Embedder {
@@ -28,7 +35,9 @@ export class EmbedderFactory {
       case "google":
         return new GoogleEmbedder(config);
       default:
-        throw new Error(`Unsupported embedding provider: ${provider}`);
+        throw new ConfigurationError(
+          `Unsupported embedding provider: ${provider}`,
+        );
     }
   }
 }
@@ -43,7 +52,7 @@ export class LLMFactory {
       case "google":
         return new GoogleLLM(config);
       default:
-        throw new Error(`Unsupported LLM provider: ${provider}`);
+        throw new ConfigurationError(`Unsupported LLM provider: ${provider}`);
     }
   }
 }
@@ -56,7 +65,9 @@ export class VectorStoreFactory {
       case "qdrant":
         return new Qdrant({ ...config, embeddingModelDims: 1536 } as any);
       default:
-        throw new Error(`Unsupported vector store provider: ${provider}`);
+        throw new ConfigurationError(
+          `Unsupported vector store provider: ${provider}`,
+        );
     }
   }
 }
@@ -67,7 +78,45 @@ export class HistoryManagerFactory {
       case "sqlite":
         return new SQLiteManager((config as any)?.path || ":memory:");
       default:
-        throw new Error(`Unsupported history manager provider: ${provider}`);
+        throw new ConfigurationError(
+          `Unsupported history manager provider: ${provider}`,
+        );
     }
   }
 }
+
+export class PinningServiceFactory {
+  static create(provider: string, config: PinningConfig = {}): PinningService {
+    switch (provider.toLowerCase()) {
+      case "pinata":
+        return new PinataPinningService(config);
+      case "web3storage":
+        return new Web3StoragePinningService(config);
+      case "kubo":
+        return new KuboPinningService(config);
+      case "memory":
+        return new MemoryPinningService(config);
+      default:
+        throw new ConfigurationError(
+          `Unsupported pinning provider: ${provider}`,
+        );
+    }
+  }
+
+  /**
+   * Pick a provider from whichever credentials are configured, falling back
+   * to the in-process store (reading unknown CIDs through the gateway)
+   */
+  static fromConfig(config: PinningConfig = {}): PinningService {
+    if (config.pinataApiKey && config.pinataSecretKey) {
+      return this.create("pinata", config);
+    }
+    if (config.apiUrl && config.apiKey) {
+      return this.create("web3storage", config);
+    }
+    if (config.apiUrl) {
+      return this.create("kubo", config);
+    }
+    return this.create("memory", config);
+  }
+}
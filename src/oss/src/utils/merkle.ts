@@ -0,0 +1,94 @@
+import { ethers } from "ethers";
+
+export interface MerkleProof {
+  leaf: string;
+  proof: string[];
+  root: string;
+}
+
+export const EMPTY_MERKLE_ROOT = ethers.constants.HashZero;
+
+/**
+ * Hash ABI-encoded values into a leaf the same way OpenZeppelin's
+ * StandardMerkleTree does: keccak256(keccak256(abi.encode(values))).
+ * Double hashing keeps leaves from colliding with inner nodes.
+ */
+export function hashLeaf(types: string[], values: any[]): string {
+  return ethers.utils.keccak256(
+    ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(types, values)),
+  );
+}
+
+/**
+ * Leaf for a memory document, committed to by its IPFS CID
+ */
+export function cidLeaf(cid: string): string {
+  return hashLeaf(["string"], [cid]);
+}
+
+/**
+ * Hash two nodes in sorted order, matching MerkleProof._hashPair
+ */
+export function hashPair(a: string, b: string): string {
+  const [left, right] = ethers.BigNumber.from(a).lte(ethers.BigNumber.from(b))
+    ? [a, b]
+    : [b, a];
+  return ethers.utils.keccak256(ethers.utils.concat([left, right]));
+}
+
+function buildLevels(leaves: string[]): string[][] {
+  const levels: string[][] = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      // An unpaired node is promoted to the next level unchanged
+      next.push(
+        i + 1 < current.length
+          ? hashPair(current[i], current[i + 1])
+          : current[i],
+      );
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function computeMerkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return EMPTY_MERKLE_ROOT;
+  const levels = buildLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+export function getMerkleProof(leaves: string[], index: number): string[] {
+  if (index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const proof: string[] = [];
+  const levels = buildLevels(leaves);
+  for (let level = 0; level < levels.length - 1; level++) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < levels[level].length) {
+      proof.push(levels[level][siblingIndex]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/**
+ * Verify a proof the same way MerkleProof.verify does on chain
+ */
+export function verifyProof(
+  leaf: string,
+  proof: string[],
+  root: string,
+): boolean {
+  if (root === EMPTY_MERKLE_ROOT) return false;
+  const computed = proof.reduce(
+    (node, sibling) => hashPair(node, sibling),
+    leaf,
+  );
+  return computed.toLowerCase() === root.toLowerCase();
+}
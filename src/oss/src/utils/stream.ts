@@ -0,0 +1,49 @@
+import { createHash } from "crypto";
+
+export interface StreamIdentity {
+  user_id?: string;
+  agent_id?: string;
+  app_id?: string;
+  run_id?: string;
+}
+
+export type StreamResolver = (identity: StreamIdentity) => string;
+
+export interface StreamNamingConfig {
+  namespace?: boolean; // Scope streams by app and agent: "app/user/agent"
+  hashUserIds?: boolean; // Keep raw user IDs off chain
+  salt?: string; // Mixed into hashed user IDs, so they cannot be guessed and registered first
+  defaultStream?: string; // Used when there is no user ID, "default_stream" by default
+  resolver?: StreamResolver; // Replaces the built-in strategy entirely
+}
+
+export const DEFAULT_STREAM_ID = "default_stream";
+
+function hashUserId(userId: string, salt: string = ""): string {
+  return createHash("sha256").update(`${salt}:${userId}`).digest("hex");
+}
+
+/**
+ * Build the function mapping app/user/agent IDs to an on-chain stream ID.
+ * Without options it returns the user ID as is, like earlier releases did.
+ */
+export function createStreamResolver(
+  config: StreamNamingConfig = {},
+): StreamResolver {
+  if (config.resolver) {
+    return config.resolver;
+  }
+
+  return (identity) => {
+    const user = identity.user_id
+      ? config.hashUserIds
+        ? hashUserId(identity.user_id, config.salt)
+        : identity.user_id
+      : config.defaultStream || DEFAULT_STREAM_ID;
+
+    if (!config.namespace) {
+      return user;
+    }
+    return [identity.app_id, user, identity.agent_id].filter(Boolean).join("/");
+  };
+}
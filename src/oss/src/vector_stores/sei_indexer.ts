@@ -1,14 +1,46 @@
+import { promises as fs } from "fs";
+import { ethers } from "ethers";
 import { VectorStore } from "./base";
 import { SearchResult } from "../types";
+import {
+  EMPTY_MERKLE_ROOT,
+  MerkleProof,
+  cidLeaf,
+  computeMerkleRoot,
+  getMerkleProof,
+} from "../utils/merkle";
+import { PinningService } from "../pinning/base";
+import { PinningServiceFactory } from "../utils/factory";
+import {
+  ConfigurationError,
+  EmbeddingError,
+  getRevertReason,
+} from "../utils/errors";
+import {
+  MemoryRegistryContract,
+  connectMemoryRegistry,
+  decodeEventArgs,
+  findMissingFragments,
+} from "../contracts";
 
 export interface SeiIndexerConfig {
   seiRpcUrl: string;
   registryAddress: string;
   accessAddress: string;
   ipfsGateway: string;
+  pinning?: PinningService; // Where documents are read from, defaults to the gateway
   vectorStore: VectorStore;
   embedder: any; // Embedder instance
   privateKey?: string; // For indexer operations
+  startBlock?: number; // Block to start from when there is no checkpoint
+  confirmations?: number; // Blocks to wait before an event is considered final
+  blockRange?: number; // Max blocks per eth_getLogs request
+  pollInterval?: number; // Milliseconds between polls for new blocks
+  checkpointPath?: string; // JSON file the last processed block is saved to
+  indexRootInterval?: number; // Milliseconds between index root publications
+  maxPublishRetries?: number; // Attempts per setIndexRoot before giving up
+  retryBaseDelay?: number; // First backoff delay in ms, doubled on each retry
+  maxIndexRetries?: number; // Attempts per memory before it is dropped, default 10
 }
 
 export interface IndexEntry {
@@ -17,12 +49,38 @@ export interface IndexEntry {
   metadata: Record<string, any>;
   timestamp: number;
   streamId: string;
+  blockNumber: number;
+  logIndex: number;
 }
 
-export interface MerkleProof {
-  leaf: string;
-  proof: string[];
+// Memory stored in the vector store, kept so index roots survive restarts
+export type IndexedMemory = Pick<
+  IndexEntry,
+  "cid" | "streamId" | "blockNumber"
+>;
+
+// MemoryAppended event whose content could not be indexed yet
+export interface PendingMemory {
+  cid: string;
+  merkleRoot: string;
+  streamId: string;
+  timestamp: number; // Block timestamp in ms
+  blockNumber: number;
+  logIndex: number;
+  attempts: number;
+}
+
+export interface IndexerCheckpoint {
+  lastProcessedBlock: number;
+  blockHash: string | null;
+  pending?: PendingMemory[]; // Retried on every poll, so the checkpoint can move on
+  indexed?: IndexedMemory[]; // What index roots are built from
+}
+
+// Index root published on chain and the stream CIDs it commits to
+interface PublishedLeaves {
   root: string;
+  leaves: string[];
 }
 
 /**
@@ -33,35 +91,86 @@ export class SeiIndexer {
   private config: SeiIndexerConfig;
   private isRunning: boolean = false;
   private lastProcessedBlock: number = 0;
-  private indexEntries: Map<string, IndexEntry> = new Map();
+  private lastProcessedBlockHash: string | null = null;
+  private indexEntries: Map<string, IndexedMemory> = new Map(); // CID => memory
+  private pendingMemories: PendingMemory[] = [];
+  private provider: ethers.providers.JsonRpcProvider;
+  private registry: MemoryRegistryContract;
+  private checkpointLoaded: boolean = false;
+  private signer?: ethers.Wallet;
+  private publishedRoots: Map<string, string> = new Map();
+  private rootUpdateTimer?: ReturnType<typeof setTimeout>;
+  private pendingSleeps: Set<() => void> = new Set();
+  private pinning: PinningService;
 
   constructor(config: SeiIndexerConfig) {
     this.config = config;
+    this.provider = new ethers.providers.JsonRpcProvider(config.seiRpcUrl);
+    this.registry = connectMemoryRegistry(
+      config.registryAddress,
+      this.provider,
+    );
+    this.pinning =
+      config.pinning ||
+      PinningServiceFactory.fromConfig({ gateway: config.ipfsGateway });
+    if (config.privateKey) {
+      this.signer = new ethers.Wallet(config.privateKey, this.provider);
+    }
+    this.lastProcessedBlock = Math.max((config.startBlock ?? 0) - 1, 0);
   }
 
   async start(): Promise<void> {
     console.log("Starting Sei Indexer...");
+    await this.checkDeployment();
     this.isRunning = true;
 
-    // Start listening to blockchain events
-    await this.startEventListener();
+    // Resume from the saved checkpoint so restarts don't reprocess everything
+    await this.loadCheckpoint();
 
     // Start periodic index root updates
-    this.startIndexRootUpdater();
+    this.scheduleIndexRootUpdate();
+
+    // Start listening to blockchain events
+    await this.startEventListener();
   }
 
   stop(): void {
     console.log("Stopping Sei Indexer...");
     this.isRunning = false;
+
+    // Cancel pending timers so the process can exit
+    clearTimeout(this.rootUpdateTimer);
+    this.rootUpdateTimer = undefined;
+    for (const wakeUp of this.pendingSleeps) {
+      wakeUp();
+    }
+  }
+
+  /**
+   * Index every confirmed event up to the current head once
+   */
+  async catchUp(): Promise<void> {
+    if (!this.checkpointLoaded) {
+      await this.checkDeployment();
+      await this.loadCheckpoint();
+    }
+    await this.processNewEvents();
+  }
+
+  getCheckpoint(): IndexerCheckpoint {
+    return {
+      lastProcessedBlock: this.lastProcessedBlock,
+      blockHash: this.lastProcessedBlockHash,
+      pending: this.pendingMemories,
+      indexed: Array.from(this.indexEntries.values()),
+    };
   }
 
   private async startEventListener(): Promise<void> {
-    // Simulate blockchain event listening
-    // In production, this would use ethers.js or web3.js to listen to events
     while (this.isRunning) {
       try {
         await this.processNewEvents();
-        await this.sleep(5000); // Check every 5 seconds
+        await this.sleep(this.config.pollInterval ?? 5000);
       } catch (error) {
         console.error("Error processing events:", error);
         await this.sleep(10000); // Wait longer on error
@@ -70,93 +179,245 @@ export class SeiIndexer {
   }
 
   private async processNewEvents(): Promise<void> {
-    // Mock event processing - in production, this would:
-    // 1. Query the MemoryRegistry contract for MemoryAppended events
-    // 2. Process each event to fetch IPFS content and create embeddings
+    await this.handleReorg();
+    await this.retryPendingMemories();
+
+    // Only index blocks that are deep enough to survive a reorg
+    const confirmations = this.config.confirmations ?? 2;
+    const headBlock = await this.provider.getBlockNumber();
+    const safeBlock = headBlock - confirmations;
+    if (safeBlock <= this.lastProcessedBlock) {
+      return;
+    }
+
+    console.log(
+      `Checking for new MemoryAppended events in blocks ${this.lastProcessedBlock + 1}-${safeBlock}...`,
+    );
 
-    console.log("Checking for new MemoryAppended events...");
+    const blockRange = this.config.blockRange ?? 2000;
+    for (
+      let fromBlock = this.lastProcessedBlock + 1;
+      fromBlock <= safeBlock;
+      fromBlock += blockRange
+    ) {
+      const toBlock = Math.min(fromBlock + blockRange - 1, safeBlock);
+      const events = await this.registry.queryFilter(
+        this.registry.filters.MemoryAppended(),
+        fromBlock,
+        toBlock,
+      );
 
-    // Simulate processing events
-    const mockEvents = await this.fetchMockEvents();
+      for (const event of events) {
+        await this.processMemoryAppendedEvent(event);
+      }
 
-    for (const event of mockEvents) {
-      await this.processMemoryAppendedEvent(event);
+      const block = await this.provider.getBlock(toBlock);
+      this.lastProcessedBlock = toBlock;
+      this.lastProcessedBlockHash = block.hash;
+      await this.saveCheckpoint();
     }
   }
 
-  private async fetchMockEvents(): Promise<any[]> {
-    // In production, this would be:
-    // const filter = contract.filters.MemoryAppended();
-    // const events = await contract.queryFilter(filter, this.lastProcessedBlock);
+  private async handleReorg(): Promise<void> {
+    if (!this.lastProcessedBlockHash) {
+      return;
+    }
+
+    const block = await this.provider.getBlock(this.lastProcessedBlock);
+    if (block && block.hash === this.lastProcessedBlockHash) {
+      return;
+    }
+
+    // The checkpointed block was reorganised away: rewind and reindex
+    const rewindTo = Math.max(
+      this.lastProcessedBlock - (this.config.confirmations ?? 2) - 1,
+      0,
+    );
+    console.warn(
+      `Reorg detected at block ${this.lastProcessedBlock}, rewinding to ${rewindTo}`,
+    );
+
+    for (const [cid, entry] of this.indexEntries) {
+      if (entry.blockNumber > rewindTo) {
+        this.indexEntries.delete(cid);
+        await this.config.vectorStore.delete(cid).catch(() => undefined);
+      }
+    }
+    this.pendingMemories = this.pendingMemories.filter(
+      (memory) => memory.blockNumber <= rewindTo,
+    );
 
-    return []; // No mock events for now
+    const rewoundBlock =
+      rewindTo > 0 ? await this.provider.getBlock(rewindTo) : null;
+    this.lastProcessedBlock = rewindTo;
+    this.lastProcessedBlockHash = rewoundBlock ? rewoundBlock.hash : null;
+    await this.saveCheckpoint();
   }
 
-  private async processMemoryAppendedEvent(event: any): Promise<void> {
-    const { streamId, cid, merkleRoot, metadata } = event.args;
+  // Older registries log MemoryAppended under another topic, so nothing would match
+  private async checkDeployment(): Promise<void> {
+    const missing = await findMissingFragments(this.registry, [
+      "MemoryAppended",
+    ]);
+    if (missing.length > 0) {
+      throw new ConfigurationError(
+        `The MemoryRegistry at ${this.config.registryAddress} predates the current MemoryAppended event. Deploy the current contracts with contracts/scripts/deploy.js and index those`,
+      );
+    }
+  }
+
+  private async loadCheckpoint(): Promise<void> {
+    this.checkpointLoaded = true;
+    if (!this.config.checkpointPath) {
+      return;
+    }
 
     try {
-      // Fetch content from IPFS
-      const content = await this.fetchFromIPFS(cid);
-      if (!content) {
-        console.warn(`Failed to fetch content for CID: ${cid}`);
-        return;
+      const raw = await fs.readFile(this.config.checkpointPath, "utf8");
+      const checkpoint = JSON.parse(raw) as IndexerCheckpoint;
+      this.lastProcessedBlock = checkpoint.lastProcessedBlock;
+      this.lastProcessedBlockHash = checkpoint.blockHash;
+      this.pendingMemories = checkpoint.pending || [];
+      this.indexEntries = new Map(
+        (checkpoint.indexed || []).map((memory) => [memory.cid, memory]),
+      );
+      console.log(`Resuming Sei Indexer from block ${this.lastProcessedBlock}`);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.error("Error loading indexer checkpoint:", error);
       }
+    }
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    if (!this.config.checkpointPath) {
+      return;
+    }
 
-      // Generate or extract embedding
-      let embedding: number[];
-      if (content.embedding) {
-        embedding = content.embedding;
-      } else {
-        embedding = await this.generateEmbedding(content.content);
+    await fs.writeFile(
+      this.config.checkpointPath,
+      JSON.stringify(this.getCheckpoint(), null, 2),
+    );
+  }
+
+  private async processMemoryAppendedEvent(event: ethers.Event): Promise<void> {
+    // The indexed streamId is only a hash, `stream` holds the ID itself
+    const {
+      cid,
+      merkleRoot,
+      timestamp,
+      stream: streamId,
+    } = decodeEventArgs(this.registry, event);
+
+    const memory: PendingMemory = {
+      cid,
+      merkleRoot,
+      streamId,
+      timestamp: timestamp.toNumber() * 1000,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      attempts: 0,
+    };
+    try {
+      await this.indexMemory(memory);
+    } catch (error) {
+      // Keep it for the next poll instead of losing it behind the checkpoint
+      console.error(`Error indexing CID ${cid}, will retry:`, error);
+      this.pendingMemories.push({ ...memory, attempts: 1 });
+    }
+  }
+
+  private async retryPendingMemories(): Promise<void> {
+    if (this.pendingMemories.length === 0) {
+      return;
+    }
+
+    const maxRetries = this.config.maxIndexRetries ?? 10;
+    const stillPending: PendingMemory[] = [];
+    for (const memory of this.pendingMemories) {
+      try {
+        await this.indexMemory(memory);
+      } catch (error) {
+        const attempts = memory.attempts + 1;
+        if (attempts >= maxRetries) {
+          console.error(
+            `Giving up on CID ${memory.cid} after ${attempts} attempts:`,
+            error,
+          );
+        } else {
+          stillPending.push({ ...memory, attempts });
+        }
       }
+    }
 
-      // Create index entry
-      const indexEntry: IndexEntry = {
-        cid,
-        embedding,
-        metadata: {
-          ...content.metadata,
-          streamId,
-          merkleRoot,
-          blockNumber: event.blockNumber,
-        },
-        timestamp: content.timestamp,
-        streamId,
-      };
+    this.pendingMemories = stillPending;
+    await this.saveCheckpoint();
+  }
 
-      // Store in vector database
-      await this.storeInVectorDB(indexEntry);
+  private async indexMemory(memory: PendingMemory): Promise<void> {
+    const { cid, merkleRoot, streamId } = memory;
 
-      // Store in local index
-      this.indexEntries.set(cid, indexEntry);
+    // Fetch content from IPFS
+    const content = await this.fetchFromIPFS(cid);
+    if (!content) {
+      throw new Error(`Failed to fetch content for CID: ${cid}`);
+    }
 
-      console.log(`Indexed memory: ${cid} for stream: ${streamId}`);
-    } catch (error) {
-      console.error(`Error processing event for CID ${cid}:`, error);
+    // Generate or extract embedding
+    let embedding: number[];
+    if (content.embedding) {
+      embedding = content.embedding;
+    } else {
+      embedding = await this.generateEmbedding(content.content);
     }
+
+    // Create index entry
+    const indexEntry: IndexEntry = {
+      cid,
+      embedding,
+      metadata: {
+        ...content.metadata,
+        streamId,
+        merkleRoot,
+        blockNumber: memory.blockNumber,
+      },
+      timestamp:
+        content.timestamp ?? content.metadata?.timestamp ?? memory.timestamp,
+      streamId,
+      blockNumber: memory.blockNumber,
+      logIndex: memory.logIndex,
+    };
+
+    // Store in vector database
+    await this.storeInVectorDB(indexEntry);
+
+    // Store in local index
+    this.indexEntries.set(cid, {
+      cid,
+      streamId,
+      blockNumber: memory.blockNumber,
+    });
+
+    console.log(`Indexed memory: ${cid} for stream: ${streamId}`);
   }
 
   private async fetchFromIPFS(cid: string): Promise<any> {
     try {
-      const response = await fetch(`${this.config.ipfsGateway}/ipfs/${cid}`);
-      if (!response.ok) {
-        throw new Error(`IPFS fetch failed: ${response.statusText}`);
-      }
-      return await response.json();
+      return await this.pinning.get(cid);
     } catch (error) {
       console.error(`Error fetching from IPFS (${cid}):`, error);
       return null;
     }
   }
 
+  // Throws instead of returning an empty vector, so the memory stays pending
   private async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const embedding = await this.config.embedder.embed(text);
-      return embedding;
+      return await this.config.embedder.embed(text);
     } catch (error) {
-      console.error("Error generating embedding:", error);
-      return [];
+      throw new EmbeddingError("Failed to generate embedding", {
+        cause: error,
+      });
     }
   }
 
@@ -173,98 +434,122 @@ export class SeiIndexer {
     }
   }
 
-  private startIndexRootUpdater(): void {
-    // Periodically update the index root on-chain
-    setInterval(async () => {
+  private scheduleIndexRootUpdate(): void {
+    // Periodically update the index root on-chain, one run at a time
+    this.rootUpdateTimer = setTimeout(async () => {
+      await this.updateIndexRoots();
       if (this.isRunning) {
-        await this.updateIndexRoots();
+        this.scheduleIndexRootUpdate();
       }
-    }, 30000); // Every 30 seconds
+    }, this.config.indexRootInterval ?? 30000);
   }
 
-  private async updateIndexRoots(): Promise<void> {
-    try {
-      // Group entries by stream
-      const streamGroups = new Map<string, IndexEntry[]>();
+  /**
+   * Publish the index root of every stream whose root changed since the last run
+   */
+  async updateIndexRoots(): Promise<void> {
+    if (!this.signer) {
+      console.warn("No indexer privateKey configured, skipping index roots");
+      return;
+    }
 
-      for (const entry of this.indexEntries.values()) {
-        if (!streamGroups.has(entry.streamId)) {
-          streamGroups.set(entry.streamId, []);
-        }
-        streamGroups.get(entry.streamId)!.push(entry);
-      }
+    // Batch all streams with indexed entries into one publication round
+    const streamIds = new Set(
+      Array.from(this.indexEntries.values()).map((entry) => entry.streamId),
+    );
 
-      // Update root for each stream
-      for (const [streamId, entries] of streamGroups) {
-        const merkleRoot = this.computeMerkleRoot(entries);
-        await this.setIndexRootOnChain(streamId, merkleRoot);
+    // A stream that can't be read or published doesn't hold back the others
+    for (const streamId of streamIds) {
+      try {
+        await this.updateIndexRoot(streamId);
+      } catch (error) {
+        console.error(`Error updating index root for ${streamId}:`, error);
       }
-    } catch (error) {
-      console.error("Error updating index roots:", error);
     }
   }
 
-  private computeMerkleRoot(entries: IndexEntry[]): string {
-    // Simple implementation - in production, use a proper Merkle tree library
-    const leaves = entries.map((entry) =>
-      this.hashLeaf(entry.cid, entry.embedding, entry.timestamp),
-    );
-
-    if (leaves.length === 0)
-      return "0x0000000000000000000000000000000000000000000000000000000000000000";
-    if (leaves.length === 1) return leaves[0];
-
-    // Simple binary tree approach
-    let currentLevel = leaves;
-    while (currentLevel.length > 1) {
-      const nextLevel: string[] = [];
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-        nextLevel.push(this.hashPair(left, right));
-      }
-      currentLevel = nextLevel;
+  private async updateIndexRoot(streamId: string): Promise<void> {
+    const merkleRoot = computeMerkleRoot(await this.getIndexedLeaves(streamId));
+    if (!this.publishedRoots.has(streamId)) {
+      this.publishedRoots.set(
+        streamId,
+        await this.registry.getIndexRoot(streamId),
+      );
+    }
+    if (this.publishedRoots.get(streamId) === merkleRoot) {
+      return;
     }
 
-    return currentLevel[0];
+    if (await this.isAuthorizedIndexer(streamId)) {
+      await this.setIndexRootOnChain(streamId, merkleRoot);
+    } else {
+      console.warn(
+        `Not authorized to publish index roots for ${streamId}, its owner has to call authorizeIndexer`,
+      );
+    }
   }
 
-  private hashLeaf(
-    cid: string,
-    embedding: number[],
-    timestamp: number,
-  ): string {
-    // Create deterministic hash of leaf data
-    const data = `${cid}-${embedding.slice(0, 10).join(",")}-${timestamp}`;
-    return `0x${this.simpleHash(data)}`;
+  /**
+   * Leaves are the stream's CIDs in append order, so clients can rebuild
+   * the same tree from MemoryRegistry.getStreamHistory. The tree stops at
+   * the first CID that isn't indexed: it may be unconfirmed or still
+   * pending, and one the indexer gave up on holds the root there.
+   */
+  private async getIndexedLeaves(streamId: string): Promise<string[]> {
+    const history: string[] = await this.registry.getStreamHistory(streamId);
+    return history.slice(0, this.indexedLength(streamId, history)).map(cidLeaf);
   }
 
-  private hashPair(left: string, right: string): string {
-    const combined = left + right;
-    return `0x${this.simpleHash(combined)}`;
+  private indexedLength(streamId: string, history: string[]): number {
+    const length = history.findIndex(
+      (cid) => this.indexEntries.get(cid)?.streamId !== streamId,
+    );
+    return length === -1 ? history.length : length;
   }
 
-  private simpleHash(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16).padStart(64, "0");
+  // The registry takes index roots from the stream's authorized indexer or its owner
+  private async isAuthorizedIndexer(streamId: string): Promise<boolean> {
+    const stream = await this.registry.streams(streamId);
+    const address = (await this.signer!.getAddress()).toLowerCase();
+    return (
+      stream.authorizedIndexer.toLowerCase() === address ||
+      stream.owner.toLowerCase() === address
+    );
   }
 
   private async setIndexRootOnChain(
     streamId: string,
     merkleRoot: string,
   ): Promise<void> {
-    try {
-      console.log(`Setting index root for stream ${streamId}: ${merkleRoot}`);
-      // In production, this would call the contract:
-      // const tx = await registryContract.setIndexRoot(streamId, merkleRoot);
-      // await tx.wait();
-    } catch (error) {
-      console.error(`Error setting index root for stream ${streamId}:`, error);
+    const maxRetries = this.config.maxPublishRetries ?? 3;
+    const baseDelay = this.config.retryBaseDelay ?? 1000;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        console.log(`Setting index root for stream ${streamId}: ${merkleRoot}`);
+        const tx = await this.registry
+          .connect(this.signer!)
+          .setIndexRoot(streamId, merkleRoot);
+        await tx.wait();
+        this.publishedRoots.set(streamId, merkleRoot);
+        console.log(`Index root for ${streamId} published: ${tx.hash}`);
+        return;
+      } catch (error) {
+        // Retrying won't help until the owner authorizes this indexer
+        const reason = getRevertReason(error);
+        if (reason === "Not authorized indexer") {
+          console.error(`Not authorized to set the index root of ${streamId}`);
+          return;
+        }
+
+        console.error(
+          `Error setting index root for stream ${streamId} (attempt ${attempt}/${maxRetries}):`,
+          error,
+        );
+        if (attempt < maxRetries && this.isRunning) {
+          await this.sleep(baseDelay * 2 ** (attempt - 1));
+        }
+      }
     }
   }
 
@@ -282,11 +567,22 @@ export class SeiIndexer {
         streamId,
       });
 
-      // Add verification proofs
+      // Add verification proofs, against each stream's published root
       const verifiedResults: SearchResult[] = [];
+      const publishedLeaves = new Map<string, PublishedLeaves>();
 
       for (const result of results) {
-        const proof = await this.generateMerkleProof(result.id);
+        const resultStreamId: string = result.payload?.streamId ?? streamId;
+        if (!publishedLeaves.has(resultStreamId)) {
+          publishedLeaves.set(
+            resultStreamId,
+            await this.getPublishedLeaves(resultStreamId),
+          );
+        }
+        const proof = this.generateMerkleProof(
+          publishedLeaves.get(resultStreamId)!,
+          result.id,
+        );
         verifiedResults.push({
           results: [
             {
@@ -309,75 +605,61 @@ export class SeiIndexer {
     }
   }
 
-  private async generateMerkleProof(cid: string): Promise<MerkleProof> {
-    // Generate Merkle proof for the given CID
-    const entry = this.indexEntries.get(cid);
-    if (!entry) {
-      throw new Error(`Index entry not found for CID: ${cid}`);
+  /**
+   * The history prefix the index root on chain commits to. The published root
+   * lags behind the index, so the indexed prefix is tried first and shorter
+   * ones after it.
+   */
+  private async getPublishedLeaves(streamId: string): Promise<PublishedLeaves> {
+    const root: string = await this.registry.getIndexRoot(streamId);
+    if (root === EMPTY_MERKLE_ROOT) {
+      return { root, leaves: [] };
     }
 
-    const streamEntries = Array.from(this.indexEntries.values()).filter(
-      (e) => e.streamId === entry.streamId,
-    );
-
-    const leaf = this.hashLeaf(entry.cid, entry.embedding, entry.timestamp);
-    const proof = this.generateProofPath(streamEntries, entry);
-    const root = this.computeMerkleRoot(streamEntries);
-
-    return {
-      leaf,
-      proof,
-      root,
-    };
-  }
-
-  private generateProofPath(
-    entries: IndexEntry[],
-    targetEntry: IndexEntry,
-  ): string[] {
-    // Simplified proof generation - in production, use proper Merkle tree
-    const leaves = entries.map((entry) =>
-      this.hashLeaf(entry.cid, entry.embedding, entry.timestamp),
-    );
-
-    const targetLeaf = this.hashLeaf(
-      targetEntry.cid,
-      targetEntry.embedding,
-      targetEntry.timestamp,
-    );
-    const targetIndex = leaves.indexOf(targetLeaf);
-
-    if (targetIndex === -1) return [];
-
-    // Simple proof path (in production, would be more sophisticated)
-    const proof: string[] = [];
-    let currentLevel = leaves;
-    let currentIndex = targetIndex;
-
-    while (currentLevel.length > 1) {
-      const isEven = currentIndex % 2 === 0;
-      const siblingIndex = isEven ? currentIndex + 1 : currentIndex - 1;
-
-      if (siblingIndex < currentLevel.length) {
-        proof.push(currentLevel[siblingIndex]);
+    const history: string[] = await this.registry.getStreamHistory(streamId);
+    const leaves = history.map(cidLeaf);
+    const lengths = [
+      this.indexedLength(streamId, history),
+      ...Array.from({ length: leaves.length }, (_, i) => leaves.length - i),
+    ];
+    for (const length of lengths) {
+      if (length > 0 && computeMerkleRoot(leaves.slice(0, length)) === root) {
+        return { root, leaves: leaves.slice(0, length) };
       }
+    }
 
-      // Move to next level
-      const nextLevel: string[] = [];
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-        nextLevel.push(this.hashPair(left, right));
-      }
+    console.warn(`Index root for ${streamId} does not match its history`);
+    return { root, leaves: [] };
+  }
 
-      currentLevel = nextLevel;
-      currentIndex = Math.floor(currentIndex / 2);
+  // Null when the published root doesn't cover the CID (yet)
+  private generateMerkleProof(
+    published: PublishedLeaves,
+    cid: string,
+  ): MerkleProof | null {
+    const leaf = cidLeaf(cid);
+    const index = published.leaves.indexOf(leaf);
+    if (index === -1) {
+      return null;
     }
 
-    return proof;
+    return {
+      leaf,
+      proof: getMerkleProof(published.leaves, index),
+      root: published.root,
+    };
   }
 
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    // stop() resolves a pending sleep early instead of waiting it out
+    return new Promise((resolve) => {
+      const wakeUp = () => {
+        clearTimeout(timer);
+        this.pendingSleeps.delete(wakeUp);
+        resolve();
+      };
+      const timer = setTimeout(wakeUp, ms);
+      this.pendingSleeps.add(wakeUp);
+    });
   }
 }
@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import { computeCid, encodeDagJson, isDagJsonCid } from "../src/utils/cid";
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+function decodeBase32(text: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+describe("cid", () => {
+  it("encodes canonical DAG-JSON", () => {
+    expect(
+      encodeDagJson({ b: 1, a: [1, undefined], c: undefined }).toString(),
+    ).toBe('{"a":[1,null],"b":1}');
+    expect(encodeDagJson({ nested: { z: true, y: null } }).toString()).toBe(
+      '{"nested":{"y":null,"z":true}}',
+    );
+  });
+
+  it("refuses values DAG-JSON can't represent", () => {
+    expect(() => encodeDagJson({ value: NaN })).toThrow("cannot encode");
+    expect(() => encodeDagJson({ value: () => 1 })).toThrow("cannot encode");
+  });
+
+  it("addresses the sha2-256 digest of the DAG-JSON bytes", () => {
+    const value = { content: "likes tea", metadata: { user_id: "alice" } };
+    const cid = computeCid(value);
+
+    // CIDv1, dag-json, sha2-256 in base32 always starts like this
+    expect(cid.startsWith("baguqeera")).toBe(true);
+    expect(cid).toHaveLength(61); // "b" + base32 of a 37-byte CID
+
+    const digest = decodeBase32(cid.slice(1)).subarray(-32);
+    expect(digest).toEqual(
+      createHash("sha256").update(encodeDagJson(value)).digest(),
+    );
+  });
+
+  it("depends on content, not key order", () => {
+    expect(computeCid({ a: 1, b: 2 })).toBe(computeCid({ b: 2, a: 1 }));
+    expect(computeCid({ a: 1 })).not.toBe(computeCid({ a: 2 }));
+  });
+
+  it("tells dag-json CIDs from UnixFS ones", () => {
+    expect(isDagJsonCid(computeCid({ a: 1 }))).toBe(true);
+    expect(isDagJsonCid("QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG")).toBe(
+      false,
+    );
+    expect(
+      isDagJsonCid(
+        "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+      ),
+    ).toBe(false);
+  });
+});
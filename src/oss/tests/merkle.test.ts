@@ -0,0 +1,62 @@
+import { ethers } from "ethers";
+import {
+  EMPTY_MERKLE_ROOT,
+  cidLeaf,
+  computeMerkleRoot,
+  getMerkleProof,
+  hashLeaf,
+  hashPair,
+  verifyProof,
+} from "../src/utils/merkle";
+
+const leaves = (count: number) =>
+  Array.from({ length: count }, (_, i) => cidLeaf(`cid-${i}`));
+
+describe("merkle", () => {
+  it("double hashes ABI-encoded leaves", () => {
+    const encoded = ethers.utils.defaultAbiCoder.encode(["string"], ["cid-0"]);
+    expect(cidLeaf("cid-0")).toBe(
+      ethers.utils.keccak256(ethers.utils.keccak256(encoded)),
+    );
+    expect(hashLeaf(["string"], ["cid-0"])).toBe(cidLeaf("cid-0"));
+  });
+
+  it("hashes pairs in sorted order", () => {
+    const [a, b] = leaves(2);
+    expect(hashPair(a, b)).toBe(hashPair(b, a));
+  });
+
+  it("roots an empty tree at zero and a single leaf at itself", () => {
+    expect(computeMerkleRoot([])).toBe(EMPTY_MERKLE_ROOT);
+    const [leaf] = leaves(1);
+    expect(computeMerkleRoot([leaf])).toBe(leaf);
+    expect(getMerkleProof([leaf], 0)).toEqual([]);
+  });
+
+  it("proves every leaf of balanced and unbalanced trees", () => {
+    for (let count = 1; count <= 9; count++) {
+      const tree = leaves(count);
+      const root = computeMerkleRoot(tree);
+      tree.forEach((leaf, index) => {
+        expect(verifyProof(leaf, getMerkleProof(tree, index), root)).toBe(true);
+      });
+    }
+  });
+
+  it("rejects proofs for other leaves or roots", () => {
+    const tree = leaves(5);
+    const root = computeMerkleRoot(tree);
+    const proof = getMerkleProof(tree, 2);
+
+    expect(verifyProof(cidLeaf("cid-9"), proof, root)).toBe(false);
+    expect(verifyProof(tree[2], proof, computeMerkleRoot(leaves(4)))).toBe(
+      false,
+    );
+    expect(verifyProof(tree[2], proof, EMPTY_MERKLE_ROOT)).toBe(false);
+  });
+
+  it("refuses proofs for indexes outside the tree", () => {
+    expect(() => getMerkleProof(leaves(3), 3)).toThrow("out of range");
+    expect(() => getMerkleProof(leaves(3), -1)).toThrow("out of range");
+  });
+});
@@ -0,0 +1,53 @@
+import { createHash } from "crypto";
+import { DEFAULT_STREAM_ID, createStreamResolver } from "../src/utils/stream";
+
+const sha256 = (text: string) =>
+  createHash("sha256").update(text).digest("hex");
+
+describe("createStreamResolver", () => {
+  it("uses the raw user ID by default", () => {
+    const resolve = createStreamResolver();
+    expect(resolve({ user_id: "alice", agent_id: "bot" })).toBe("alice");
+    expect(resolve({})).toBe(DEFAULT_STREAM_ID);
+  });
+
+  it("falls back to the configured default stream", () => {
+    const resolve = createStreamResolver({ defaultStream: "shared" });
+    expect(resolve({ agent_id: "bot" })).toBe("shared");
+  });
+
+  it("namespaces streams by app and agent", () => {
+    const resolve = createStreamResolver({ namespace: true });
+    expect(resolve({ app_id: "app", user_id: "alice", agent_id: "bot" })).toBe(
+      "app/alice/bot",
+    );
+    expect(resolve({ user_id: "alice", agent_id: "bot" })).toBe("alice/bot");
+    expect(resolve({ app_id: "app" })).toBe(`app/${DEFAULT_STREAM_ID}`);
+  });
+
+  it("hashes user IDs with the salt", () => {
+    const resolve = createStreamResolver({ hashUserIds: true, salt: "pepper" });
+    expect(resolve({ user_id: "alice" })).toBe(sha256("pepper:alice"));
+    expect(resolve({ user_id: "alice" })).not.toBe(
+      createStreamResolver({ hashUserIds: true })({ user_id: "alice" }),
+    );
+
+    const namespaced = createStreamResolver({
+      hashUserIds: true,
+      namespace: true,
+    });
+    expect(namespaced({ app_id: "app", user_id: "alice" })).toBe(
+      `app/${sha256(":alice")}`,
+    );
+  });
+
+  it("lets a custom resolver take over", () => {
+    const resolve = createStreamResolver({
+      namespace: true,
+      resolver: ({ user_id }) => `tenant-42:${user_id}`,
+    });
+    expect(resolve({ app_id: "app", user_id: "alice" })).toBe(
+      "tenant-42:alice",
+    );
+  });
+});